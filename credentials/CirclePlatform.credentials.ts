@@ -7,7 +7,6 @@
 
 import type {
 	IAuthenticateGeneric,
-	ICredentialTestRequest,
 	ICredentialType,
 	INodeProperties,
 } from 'n8n-workflow';
@@ -73,7 +72,27 @@ export class CirclePlatform implements ICredentialType {
 			name: 'idempotencyKeyPrefix',
 			type: 'string',
 			default: '',
-			description: 'Optional prefix for idempotency keys to namespace your requests',
+			description: 'Optional value mixed into idempotency keys derived from item fields, so different workflows or environments get different keys. Circle only accepts plain UUIDs, so it is not prepended to keys.',
+		},
+		{
+			displayName: 'Max Retries',
+			name: 'maxRetries',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+			},
+			default: 3,
+			description: 'How many times to retry rate-limited (429), server (5xx) and timed-out requests',
+		},
+		{
+			displayName: 'Max Retry Delay (Ms)',
+			name: 'maxRetryDelay',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+			},
+			default: 30000,
+			description: 'Upper bound for the wait between retries, including waits requested by Retry-After',
 		},
 	];
 
@@ -85,12 +104,4 @@ export class CirclePlatform implements ICredentialType {
 			},
 		},
 	};
-
-	test: ICredentialTestRequest = {
-		request: {
-			baseURL: '={{$credentials.environment === "production" ? "https://api.circle.com" : "https://api-sandbox.circle.com"}}',
-			url: '/v1/configuration',
-			method: 'GET',
-		},
-	};
 }
@@ -6,22 +6,166 @@
  */
 
 import type {
+	ICredentialsDecrypted,
+	ICredentialTestFunctions,
+	IDisplayOptions,
 	IExecuteFunctions,
+	ILoadOptionsFunctions,
+	INodeCredentialTestResult,
 	INodeExecutionData,
+	INodeListSearchResult,
+	INodeProperties,
 	INodeType,
 	INodeTypeDescription,
 	IDataObject,
+	JsonObject,
 } from 'n8n-workflow';
-import { NodeOperationError } from 'n8n-workflow';
+import { NodeApiError, NodeOperationError } from 'n8n-workflow';
 
-import { CircleApiClient, createCircleApiClient } from './transport/circleApi';
+import { CircleApiClient, HttpMethod, PaginationParams, createCircleApiClient } from './transport/circleApi';
+import { CircleComplianceError, CircleError, CircleFinalStatusError } from './transport/errors';
+import type { Payment, Payout, Transfer } from './transport/models';
+import { testBlockchainCredential, testCctpCredential, testPlatformCredential } from './transport/credentialTests';
+import {
+	searchBankAccounts,
+	searchPayouts,
+	searchProgrammableWallets,
+	searchRecipients,
+	searchSubscriptions,
+	searchWallets,
+} from './transport/listSearch';
 import { CctpClient, createCctpClient } from './transport/cctpClient';
 import { OnchainClient, createOnchainClient } from './transport/onchainClient';
 import { USDC_CONTRACTS, EURC_CONTRACTS, getUsdcAddress, getEurcAddress } from './constants/contracts';
 import { NETWORKS } from './constants/networks';
 import { CCTP_DOMAIN_IDS } from './constants/domains';
+import { CIRCLE_SUPPORTED_CHAINS, ERROR_CODES, PROGRAMMABLE_WALLET_BLOCKCHAINS, STATUSES } from './constants/endpoints';
 import { toRawAmount, fromRawAmount, formatAmount } from './utils/amountUtils';
 import { validateAddress } from './utils/addressUtils';
+import { normalizeScreeningResult } from './utils/complianceUtils';
+import { FX_CURRENCIES, getFxCounterCurrency, getFxQuoteTerms } from './utils/fxUtils';
+import { DEFAULT_TRAVEL_RULE_THRESHOLD, TravelRuleIdentity, buildTravelRuleIdentity, isTravelRuleRequired, validateTravelRule } from './utils/travelRuleUtils';
+import {
+	decodeEventLog,
+	decodeFunctionResult,
+	encodeConstructorArgs,
+	encodeFunctionCall,
+	getAbiFunctionSignature,
+	parseAbiParameters,
+} from './utils/abiUtils';
+import {
+	FAILURE_STATUSES,
+	PAYMENT_SETTLED_STATUSES,
+	PAYMENT_TERMINAL_STATUSES,
+	PAYOUT_TERMINAL_STATUSES,
+	PollTimeoutError,
+	TRANSFER_TERMINAL_STATUSES,
+	hasTerminalStatus,
+	pollUntil,
+} from './utils/pollingUtils';
+import { generateEntitySecret, getJwtExpiry, isJwtExpired, isValidUuid } from './utils/signatureUtils';
+
+/**
+ * Resources backed by the Circle Platform API credential
+ */
+const PLATFORM_RESOURCES = ['accounts', 'payments', 'cards', 'bankAccounts', 'payouts', 'businessAccount', 'fx', 'core', 'webhooks', 'programmableWallets', 'userWallets', 'contractPlatform', 'sandbox', 'customApi'];
+
+/**
+ * Compliance operations that call Compliance Engine with the Platform credential
+ */
+const COMPLIANCE_SCREENING_OPERATIONS = ['screenAddress', 'screenTransaction'];
+
+/**
+ * Create operations that send an idempotency key
+ */
+const IDEMPOTENT_OPERATIONS = [
+	'createWallet', 'createTransfer', 'createAddress', 'createSubscription',
+	'createWalletSet', 'createWallets', 'createTransaction',
+	'initializeUser', 'createWalletChallenge', 'createTransactionChallenge',
+	'createPaymentIntent', 'createPayment', 'cancelPayment', 'refundPayment', 'createCard',
+	'createBankAccount', 'createPayout', 'createRecipient', 'createDepositAddress',
+	'screenAddress', 'screenTransaction', 'deployTemplate', 'deployBytecode', 'importContract', 'executeContract',
+	'createQuote', 'createTrade', 'customApiCall',
+];
+
+/**
+ * List operations that support Return All / Limit
+ */
+const PAGINATED_OPERATIONS = [
+	'listWallets', 'listTransfers', 'listPayments', 'listSettlements', 'listPayouts', 'listRecipients',
+	'listWalletSets', 'listTransactions', 'listPaymentIntents', 'listIntentPayments',
+	'listRefunds', 'listChargebacks', 'listReversals', 'listCards', 'listBankAccounts',
+	'listRecipientAddresses', 'listDeposits', 'listEventLogs', 'listTrades', 'listTradeSettlements', 'customApiCall',
+];
+
+/**
+ * Query parameters each list operation filters on. Operations missing here
+ * only support the date range and page size filters.
+ */
+const LIST_FILTER_PARAMS: Record<string, { status?: string; walletId?: string; sourceId?: string; destinationId?: string }> = {
+	listTransfers: { status: 'status', walletId: 'walletId', sourceId: 'sourceWalletId', destinationId: 'destinationWalletId' },
+	listPayments: { status: 'status', sourceId: 'source' },
+	listIntentPayments: { status: 'status', sourceId: 'source' },
+	listRefunds: { status: 'status', sourceId: 'source' },
+	listReversals: { status: 'status' },
+	listPaymentIntents: { status: 'status' },
+	listPayouts: { status: 'status', sourceId: 'source', destinationId: 'destination' },
+	listRecipients: { status: 'status' },
+	listTrades: { status: 'status' },
+	listTransactions: { status: 'state', walletId: 'walletIds', sourceId: 'sourceAddress', destinationId: 'destinationAddress' },
+};
+
+const LIST_STATUS_OPTIONS = [...new Set(Object.values(STATUSES).flatMap(group => Object.values(group)))];
+
+/**
+ * Trailing Circle ID in a console URL: a UUID, or a numeric Circle Accounts wallet ID
+ */
+const CIRCLE_URL_ID_REGEX = 'https?://.+/([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}|[0-9]+)(?:[/?#].*)?$';
+
+/**
+ * Resource locator for a Circle record: pick it from a searchable list, or
+ * give its ID or a Circle console URL containing it
+ */
+function circleIdLocator(displayName: string, name: string, searchListMethod: string, displayOptions: IDisplayOptions, exampleId = '1f8bdfde-7b62-4d5a-a1f8-5c2a8f8c1d2e'): INodeProperties {
+	return {
+		displayName, name, type: 'resourceLocator', default: { mode: 'list', value: '' }, required: true, displayOptions,
+		modes: [
+			{ displayName: 'From List', name: 'list', type: 'list', typeOptions: { searchListMethod, searchable: true } },
+			{ displayName: 'By ID', name: 'id', type: 'string', placeholder: `e.g. ${exampleId}` },
+			{
+				displayName: 'By URL', name: 'url', type: 'string', placeholder: `e.g. https://app.circle.com/.../${exampleId}`,
+				extractValue: { type: 'regex', regex: CIRCLE_URL_ID_REGEX },
+				validation: [{ type: 'regex', properties: { regex: CIRCLE_URL_ID_REGEX, errorMessage: 'Not a Circle URL ending in an ID' } }],
+			},
+		],
+	};
+}
+
+/**
+ * Fields of one Travel Rule identity block (originator or beneficiary)
+ */
+function travelRuleIdentityFields(): INodeProperties[] {
+	return [
+		{
+			displayName: 'Type', name: 'type', type: 'options', default: 'individual',
+			options: [
+				{ name: 'Individual', value: 'individual' },
+				{ name: 'Business', value: 'business' },
+			],
+		},
+		{ displayName: 'Name', name: 'name', type: 'string', default: '', description: 'Full legal name of the person or business' },
+		{ displayName: 'Address Line 1', name: 'line1', type: 'string', default: '' },
+		{ displayName: 'Address Line 2', name: 'line2', type: 'string', default: '' },
+		{ displayName: 'City', name: 'city', type: 'string', default: '' },
+		{ displayName: 'District', name: 'district', type: 'string', default: '', description: 'State, province or region' },
+		{ displayName: 'Postal Code', name: 'postalCode', type: 'string', default: '' },
+		{ displayName: 'Country', name: 'country', type: 'string', default: '', placeholder: 'US', description: 'ISO 3166-1 alpha-2 country code' },
+	];
+}
+
+function getFilterOperations(filter: 'status' | 'walletId' | 'sourceId' | 'destinationId'): string[] {
+	return Object.keys(LIST_FILTER_PARAMS).filter(operation => LIST_FILTER_PARAMS[operation][filter]);
+}
 
 export class Circle implements INodeType {
 	description: INodeTypeDescription = {
@@ -36,9 +180,9 @@ export class Circle implements INodeType {
 		inputs: ['main'],
 		outputs: ['main'],
 		credentials: [
-			{ name: 'circlePlatform', required: false, displayOptions: { show: { resource: ['accounts', 'payments', 'payouts', 'core', 'webhooks'] } } },
-			{ name: 'circleBlockchain', required: false, displayOptions: { show: { resource: ['usdc', 'eurc', 'smartContract', 'utility'] } } },
-			{ name: 'circleCctp', required: false, displayOptions: { show: { resource: ['cctp', 'crossChain'] } } },
+			{ name: 'circlePlatform', required: false, testedBy: 'circlePlatformApiTest', displayOptions: { show: { resource: [...PLATFORM_RESOURCES, 'utility', 'compliance'] } } },
+			{ name: 'circleBlockchain', required: false, testedBy: 'circleBlockchainTest', displayOptions: { show: { resource: ['usdc', 'eurc', 'smartContract', 'utility'] } } },
+			{ name: 'circleCctp', required: false, testedBy: 'circleCctpTest', displayOptions: { show: { resource: ['cctp', 'crossChain'] } } },
 		],
 		properties: [
 			{
@@ -52,14 +196,23 @@ export class Circle implements INodeType {
 					{ name: 'CCTP', value: 'cctp', description: 'Cross-Chain Transfer Protocol' },
 					{ name: 'Accounts', value: 'accounts', description: 'Circle Accounts API' },
 					{ name: 'Payments', value: 'payments', description: 'Circle Payments API' },
+					{ name: 'Cards', value: 'cards', description: 'Cards for card payments' },
+					{ name: 'Bank Accounts', value: 'bankAccounts', description: 'Wire bank accounts' },
 					{ name: 'Payouts', value: 'payouts', description: 'Circle Payouts API' },
+					{ name: 'Business Account', value: 'businessAccount', description: 'Circle Mint business account' },
+					{ name: 'FX', value: 'fx', description: 'USDC/EURC quotes and trades' },
 					{ name: 'Core', value: 'core', description: 'Circle Core API' },
+					{ name: 'Programmable Wallets', value: 'programmableWallets', description: 'Developer-controlled wallets' },
+					{ name: 'User-Controlled Wallets', value: 'userWallets', description: 'End-user wallets secured by a PIN' },
 					{ name: 'Attestations', value: 'attestations', description: 'Reserve attestations' },
 					{ name: 'Compliance', value: 'compliance', description: 'Compliance checking' },
 					{ name: 'Cross-Chain', value: 'crossChain', description: 'Multi-chain operations' },
 					{ name: 'Webhooks', value: 'webhooks', description: 'Webhook management' },
 					{ name: 'Smart Contract', value: 'smartContract', description: 'Contract info' },
+					{ name: 'Smart Contract Platform', value: 'contractPlatform', description: 'Deploy and call contracts through Circle' },
+					{ name: 'Sandbox', value: 'sandbox', description: 'Simulate wires, card payouts and deposits (sandbox credentials only)' },
 					{ name: 'Utility', value: 'utility', description: 'Helper functions' },
+					{ name: 'Custom API Call', value: 'customApi', description: 'Call any Circle API endpoint' },
 				],
 				default: 'usdc',
 			},
@@ -128,23 +281,123 @@ export class Circle implements INodeType {
 				displayName: 'Operation', name: 'operation', type: 'options', noDataExpression: true,
 				displayOptions: { show: { resource: ['payments'] } },
 				options: [
+					{ name: 'Create Payment', value: 'createPayment', action: 'Create payment' },
 					{ name: 'Get Payment', value: 'getPayment', action: 'Get payment' },
 					{ name: 'List Payments', value: 'listPayments', action: 'List payments' },
+					{ name: 'Cancel Payment', value: 'cancelPayment', action: 'Cancel payment' },
+					{ name: 'Refund Payment', value: 'refundPayment', action: 'Refund payment' },
+					{ name: 'List Refunds', value: 'listRefunds', action: 'List refunds' },
+					{ name: 'List Chargebacks', value: 'listChargebacks', action: 'List chargebacks' },
+					{ name: 'List Reversals', value: 'listReversals', action: 'List reversals' },
 					{ name: 'List Settlements', value: 'listSettlements', action: 'List settlements' },
+					{ name: 'Create Payment Intent', value: 'createPaymentIntent', action: 'Create payment intent' },
+					{ name: 'Get Payment Intent', value: 'getPaymentIntent', action: 'Get payment intent' },
+					{ name: 'List Payment Intents', value: 'listPaymentIntents', action: 'List payment intents' },
+					{ name: 'Expire Payment Intent', value: 'expirePaymentIntent', action: 'Expire payment intent' },
+					{ name: 'List Intent Payments', value: 'listIntentPayments', action: 'List payments received on an intent' },
 				],
 				default: 'listPayments',
 			},
+			// Cards Operations
+			{
+				displayName: 'Operation', name: 'operation', type: 'options', noDataExpression: true,
+				displayOptions: { show: { resource: ['cards'] } },
+				options: [
+					{ name: 'Create Card', value: 'createCard', action: 'Create card' },
+					{ name: 'Get Card', value: 'getCard', action: 'Get card' },
+					{ name: 'List Cards', value: 'listCards', action: 'List cards' },
+					{ name: 'Update Card', value: 'updateCard', action: 'Update card' },
+				],
+				default: 'listCards',
+			},
+			// Bank Accounts Operations
+			{
+				displayName: 'Operation', name: 'operation', type: 'options', noDataExpression: true,
+				displayOptions: { show: { resource: ['bankAccounts'] } },
+				options: [
+					{ name: 'Create Wire Bank Account', value: 'createBankAccount', action: 'Create wire bank account' },
+					{ name: 'Get Bank Account', value: 'getBankAccount', action: 'Get bank account' },
+					{ name: 'List Bank Accounts', value: 'listBankAccounts', action: 'List bank accounts' },
+					{ name: 'Get Wire Instructions', value: 'getWireInstructions', action: 'Get wire deposit instructions' },
+				],
+				default: 'listBankAccounts',
+			},
 			// Payouts Operations
 			{
 				displayName: 'Operation', name: 'operation', type: 'options', noDataExpression: true,
 				displayOptions: { show: { resource: ['payouts'] } },
 				options: [
+					{ name: 'Create Payout', value: 'createPayout', action: 'Create payout' },
 					{ name: 'Get Payout', value: 'getPayout', action: 'Get payout' },
 					{ name: 'List Payouts', value: 'listPayouts', action: 'List payouts' },
-					{ name: 'List Recipients', value: 'listRecipients', action: 'List recipients' },
+					{ name: 'Create Recipient', value: 'createRecipient', action: 'Create address book recipient' },
+					{ name: 'Get Recipient', value: 'getRecipient', action: 'Get address book recipient' },
+					{ name: 'Delete Recipient', value: 'deleteRecipient', action: 'Delete address book recipient' },
+					{ name: 'List Recipients', value: 'listRecipients', action: 'List address book recipients' },
 				],
 				default: 'listPayouts',
 			},
+			// Business Account Operations
+			{
+				displayName: 'Operation', name: 'operation', type: 'options', noDataExpression: true,
+				displayOptions: { show: { resource: ['businessAccount'] } },
+				options: [
+					{ name: 'Get Balances', value: 'getBalances', action: 'Get business account balances' },
+					{ name: 'List Deposit Addresses', value: 'listDepositAddresses', action: 'List deposit addresses' },
+					{ name: 'Create Deposit Address', value: 'createDepositAddress', action: 'Create deposit address' },
+					{ name: 'List Recipient Addresses', value: 'listRecipientAddresses', action: 'List verified recipient addresses' },
+					{ name: 'Create Transfer', value: 'createTransfer', action: 'Create transfer to a blockchain address' },
+					{ name: 'Get Transfer', value: 'getTransfer', action: 'Get business account transfer' },
+					{ name: 'List Transfers', value: 'listTransfers', action: 'List business account transfers' },
+					{ name: 'List Deposits', value: 'listDeposits', action: 'List deposits' },
+					{ name: 'List Bank Accounts', value: 'listBankAccounts', action: 'List business bank accounts' },
+					{ name: 'Get Bank Account', value: 'getBankAccount', action: 'Get business bank account' },
+				],
+				default: 'getBalances',
+			},
+			// FX Operations
+			{
+				displayName: 'Operation', name: 'operation', type: 'options', noDataExpression: true,
+				displayOptions: { show: { resource: ['fx'] } },
+				options: [
+					{ name: 'Request Quote', value: 'createQuote', action: 'Request an FX quote' },
+					{ name: 'Execute Trade', value: 'createTrade', action: 'Execute a trade against a quote' },
+					{ name: 'Get Trade', value: 'getTrade', action: 'Get a trade' },
+					{ name: 'List Trades', value: 'listTrades', action: 'List trades' },
+					{ name: 'Get Settlement', value: 'getTradeSettlement', action: 'Get a trade settlement' },
+					{ name: 'List Settlements', value: 'listTradeSettlements', action: 'List trade settlements' },
+				],
+				default: 'createQuote',
+			},
+			// Programmable Wallets Operations
+			{
+				displayName: 'Operation', name: 'operation', type: 'options', noDataExpression: true,
+				displayOptions: { show: { resource: ['programmableWallets'] } },
+				options: [
+					{ name: 'Create Wallet Set', value: 'createWalletSet', action: 'Create wallet set' },
+					{ name: 'List Wallet Sets', value: 'listWalletSets', action: 'List wallet sets' },
+					{ name: 'Create Wallets', value: 'createWallets', action: 'Create wallets' },
+					{ name: 'Get Token Balances', value: 'getWalletBalances', action: 'Get wallet token balances' },
+					{ name: 'Create Transfer Transaction', value: 'createTransaction', action: 'Create transfer transaction' },
+					{ name: 'Get Transaction', value: 'getTransaction', action: 'Get transaction' },
+					{ name: 'List Transactions', value: 'listTransactions', action: 'List transactions' },
+				],
+				default: 'listWalletSets',
+			},
+			// User-Controlled Wallets Operations
+			{
+				displayName: 'Operation', name: 'operation', type: 'options', noDataExpression: true,
+				displayOptions: { show: { resource: ['userWallets'] } },
+				options: [
+					{ name: 'Create User', value: 'createUser', action: 'Create user' },
+					{ name: 'Create User Token', value: 'createUserToken', action: 'Create user session token' },
+					{ name: 'Initialize User', value: 'initializeUser', action: 'Initialize user' },
+					{ name: 'Create Wallet Challenge', value: 'createWalletChallenge', action: 'Create wallet challenge' },
+					{ name: 'Create Transaction Challenge', value: 'createTransactionChallenge', action: 'Create transaction challenge' },
+					{ name: 'Get Challenge', value: 'getChallenge', action: 'Get challenge status' },
+				],
+				default: 'createUserToken',
+			},
 			// Core Operations
 			{
 				displayName: 'Operation', name: 'operation', type: 'options', noDataExpression: true,
@@ -188,6 +441,45 @@ export class Circle implements INodeType {
 				],
 				default: 'getOwner',
 			},
+			// Smart Contract Platform Operations
+			{
+				displayName: 'Operation', name: 'operation', type: 'options', noDataExpression: true,
+				displayOptions: { show: { resource: ['contractPlatform'] } },
+				options: [
+					{ name: 'Deploy From Template', value: 'deployTemplate', action: 'Deploy contract from template' },
+					{ name: 'Deploy From Bytecode', value: 'deployBytecode', action: 'Deploy contract from bytecode' },
+					{ name: 'Import Contract', value: 'importContract', action: 'Import existing contract' },
+					{ name: 'Read Contract', value: 'readContract', action: 'Read contract function' },
+					{ name: 'Execute Contract', value: 'executeContract', action: 'Execute contract function' },
+					{ name: 'List Event Logs', value: 'listEventLogs', action: 'List contract event logs' },
+				],
+				default: 'readContract',
+			},
+			// Sandbox Operations
+			{
+				displayName: 'Operation', name: 'operation', type: 'options', noDataExpression: true,
+				displayOptions: { show: { resource: ['sandbox'] } },
+				options: [
+					{ name: 'Mock Incoming Wire', value: 'mockIncomingWire', action: 'Mock incoming wire' },
+					{ name: 'Mock Push-to-Card Outcome', value: 'mockPushToCard', action: 'Mock push to card outcome' },
+					{ name: 'Mock Blockchain Deposit', value: 'mockBlockchainDeposit', action: 'Mock blockchain deposit' },
+				],
+				default: 'mockIncomingWire',
+			},
+			{
+				displayName: 'Sandbox mocks only run with a Circle Platform credential set to the Sandbox environment',
+				name: 'sandboxNotice', type: 'notice', default: '',
+				displayOptions: { show: { resource: ['sandbox'] } },
+			},
+			// Custom API Call Operations
+			{
+				displayName: 'Operation', name: 'operation', type: 'options', noDataExpression: true,
+				displayOptions: { show: { resource: ['customApi'] } },
+				options: [
+					{ name: 'Custom API Call', value: 'customApiCall', action: 'Make a custom API call' },
+				],
+				default: 'customApiCall',
+			},
 			// Utility Operations
 			{
 				displayName: 'Operation', name: 'operation', type: 'options', noDataExpression: true,
@@ -198,6 +490,7 @@ export class Circle implements INodeType {
 					{ name: 'Get Chain Info', value: 'getChainInfo', action: 'Get chain info' },
 					{ name: 'Get Current Block', value: 'getCurrentBlock', action: 'Get current block' },
 					{ name: 'Get Gas Price', value: 'getGasPrice', action: 'Get gas price' },
+					{ name: 'Generate Entity Secret', value: 'generateEntitySecret', action: 'Generate entity secret', description: 'Create a new Programmable Wallets entity secret and its registration ciphertext' },
 				],
 				default: 'validateAddress',
 			},
@@ -216,6 +509,8 @@ export class Circle implements INodeType {
 				displayOptions: { show: { resource: ['compliance'] } },
 				options: [
 					{ name: 'Check Address', value: 'checkAddress', action: 'Check address' },
+					{ name: 'Screen Address', value: 'screenAddress', action: 'Screen address with compliance engine' },
+					{ name: 'Screen Transaction', value: 'screenTransaction', action: 'Screen transaction with compliance engine' },
 				],
 				default: 'checkAddress',
 			},
@@ -232,10 +527,13 @@ export class Circle implements INodeType {
 					{ name: 'Sepolia (Testnet)', value: 'sepolia' },
 				],
 				default: 'ethereum',
-				displayOptions: { show: { resource: ['usdc', 'eurc', 'smartContract', 'utility', 'crossChain', 'compliance'] } },
+				displayOptions: {
+					show: { resource: ['usdc', 'eurc', 'smartContract', 'utility', 'crossChain', 'compliance'] },
+					hide: { operation: COMPLIANCE_SCREENING_OPERATIONS },
+				},
 			},
-			{ displayName: 'Address', name: 'address', type: 'string', default: '', displayOptions: { show: { operation: ['getBalance', 'checkBlacklist', 'checkAddress', 'validateAddress'] } } },
-			{ displayName: 'Amount', name: 'amount', type: 'string', default: '', displayOptions: { show: { operation: ['transfer', 'approve', 'initiateTransfer', 'convertUnits'] } } },
+			{ displayName: 'Address', name: 'address', type: 'string', default: '', displayOptions: { show: { operation: ['getBalance', 'checkBlacklist', 'checkAddress', 'validateAddress', 'screenAddress', 'mockBlockchainDeposit'] } } },
+			{ displayName: 'Amount', name: 'amount', type: 'string', default: '', displayOptions: { show: { operation: ['transfer', 'approve', 'initiateTransfer', 'convertUnits', 'createTransaction', 'createTransactionChallenge'] } } },
 			{ displayName: 'To Address', name: 'toAddress', type: 'string', default: '', displayOptions: { show: { operation: ['transfer'] } } },
 			{ displayName: 'Spender Address', name: 'spenderAddress', type: 'string', default: '', displayOptions: { show: { operation: ['approve', 'getAllowance'] } } },
 			{ displayName: 'Owner Address', name: 'ownerAddress', type: 'string', default: '', displayOptions: { show: { operation: ['getAllowance'] } } },
@@ -243,11 +541,436 @@ export class Circle implements INodeType {
 			{ displayName: 'Message Hash', name: 'messageHash', type: 'string', default: '', displayOptions: { show: { resource: ['cctp'], operation: ['getAttestation', 'getTransferStatus'] } } },
 			{ displayName: 'Message Bytes', name: 'messageBytes', type: 'string', default: '', displayOptions: { show: { resource: ['cctp'], operation: ['completeTransfer'] } } },
 			{ displayName: 'Attestation', name: 'attestation', type: 'string', default: '', displayOptions: { show: { resource: ['cctp'], operation: ['completeTransfer'] } } },
-			{ displayName: 'Wallet ID', name: 'walletId', type: 'string', default: '', displayOptions: { show: { resource: ['accounts'], operation: ['getWallet', 'createAddress'] } } },
-			{ displayName: 'Transfer ID', name: 'transferId', type: 'string', default: '', displayOptions: { show: { resource: ['accounts'], operation: ['getTransfer'] } } },
-			{ displayName: 'Payment ID', name: 'paymentId', type: 'string', default: '', displayOptions: { show: { resource: ['payments'], operation: ['getPayment'] } } },
-			{ displayName: 'Payout ID', name: 'payoutId', type: 'string', default: '', displayOptions: { show: { resource: ['payouts'], operation: ['getPayout'] } } },
-			{ displayName: 'Subscription ID', name: 'subscriptionId', type: 'string', default: '', displayOptions: { show: { resource: ['webhooks'], operation: ['deleteSubscription'] } } },
+			circleIdLocator('Wallet', 'walletId', 'searchWallets', { show: { resource: ['accounts'], operation: ['getWallet', 'createAddress'] } }, '1000216185'),
+			{ displayName: 'Transfer ID', name: 'transferId', type: 'string', default: '', displayOptions: { show: { resource: ['accounts', 'businessAccount'], operation: ['getTransfer'] } } },
+			{ displayName: 'Payment ID', name: 'paymentId', type: 'string', default: '', displayOptions: { show: { resource: ['payments'], operation: ['getPayment', 'cancelPayment', 'refundPayment'] } } },
+			{
+				displayName: 'Source Type', name: 'sourceType', type: 'options',
+				options: [
+					{ name: 'Card', value: 'card' },
+					{ name: 'ACH', value: 'ach' },
+				],
+				default: 'card',
+				displayOptions: { show: { resource: ['payments'], operation: ['createPayment'] } },
+			},
+			{ displayName: 'Source ID', name: 'sourceId', type: 'string', default: '', description: 'ID of the card or bank account to charge', displayOptions: { show: { resource: ['payments'], operation: ['createPayment'] } } },
+			{ displayName: 'Amount', name: 'amount', type: 'string', default: '', displayOptions: { show: { resource: ['payments'], operation: ['createPayment', 'refundPayment'] } } },
+			{
+				displayName: 'Verification', name: 'verification', type: 'options',
+				options: [
+					{ name: 'None', value: 'none' },
+					{ name: 'CVV', value: 'cvv' },
+					{ name: '3D Secure', value: 'three_d_secure' },
+				],
+				default: 'none',
+				displayOptions: { show: { resource: ['payments'], operation: ['createPayment'] } },
+			},
+			{ displayName: 'CVV', name: 'cvv', type: 'string', typeOptions: { password: true }, required: true, default: '', description: 'Card security code, encrypted locally with Circle\'s PGP key before it is sent', displayOptions: { show: { resource: ['payments'], operation: ['createPayment'], verification: ['cvv'] } } },
+			{
+				displayName: 'Metadata', name: 'paymentMetadata', type: 'collection', placeholder: 'Add Field', default: {},
+				description: 'Payer details Circle uses for fraud screening',
+				displayOptions: { show: { resource: ['payments', 'cards'], operation: ['createPayment', 'createCard'] } },
+				options: [
+					{ displayName: 'Email', name: 'email', type: 'string', placeholder: 'name@email.com', default: '' },
+					{ displayName: 'Phone Number', name: 'phoneNumber', type: 'string', default: '' },
+					{ displayName: 'Session ID', name: 'sessionId', type: 'string', default: '', description: 'Hash of the payer\'s browser session' },
+					{ displayName: 'IP Address', name: 'ipAddress', type: 'string', default: '' },
+				],
+			},
+			{
+				displayName: 'Additional Fields', name: 'paymentOptions', type: 'collection', placeholder: 'Add Field', default: {},
+				displayOptions: { show: { resource: ['payments'], operation: ['createPayment'] } },
+				options: [
+					{ displayName: 'Auto Capture', name: 'autoCapture', type: 'boolean', default: true, description: 'Whether to capture the payment immediately' },
+					{ displayName: 'Description', name: 'description', type: 'string', default: '' },
+					{ displayName: 'Verification Success URL', name: 'verificationSuccessUrl', type: 'string', default: '', description: '3D Secure redirect after successful verification' },
+					{ displayName: 'Verification Failure URL', name: 'verificationFailureUrl', type: 'string', default: '', description: '3D Secure redirect after failed verification' },
+				],
+			},
+			{
+				displayName: 'Reason', name: 'reason', type: 'options',
+				options: [
+					{ name: 'Duplicate', value: 'duplicate' },
+					{ name: 'Fraudulent', value: 'fraudulent' },
+					{ name: 'Requested by Customer', value: 'requested_by_customer' },
+					{ name: 'Bank Transaction Error', value: 'bank_transaction_error' },
+					{ name: 'Invalid Account Number', value: 'invalid_account_number' },
+					{ name: 'Insufficient Funds', value: 'insufficient_funds' },
+					{ name: 'Payment Stopped by Issuer', value: 'payment_stopped_by_issuer' },
+				],
+				default: 'requested_by_customer',
+				displayOptions: { show: { resource: ['payments'], operation: ['cancelPayment', 'refundPayment'] } },
+			},
+			{
+				displayName: 'Intent Type', name: 'intentType', type: 'options',
+				options: [
+					{ name: 'Transient', value: 'transient', description: 'Collect one payment of a fixed amount' },
+					{ name: 'Continuous', value: 'continuous', description: 'Keep the deposit addresses open for any number of payments' },
+				],
+				default: 'transient',
+				displayOptions: { show: { resource: ['payments'], operation: ['createPaymentIntent'] } },
+			},
+			{ displayName: 'Amount', name: 'amount', type: 'string', default: '', displayOptions: { show: { resource: ['payments'], operation: ['createPaymentIntent'], intentType: ['transient'] } } },
+			{
+				displayName: 'Currency', name: 'currency', type: 'options',
+				options: [
+					{ name: 'USD', value: 'USD' },
+					{ name: 'EUR', value: 'EUR' },
+				],
+				default: 'USD',
+				description: 'Currency the customer pays in',
+				displayOptions: { show: { resource: ['payments'], operation: ['createPaymentIntent', 'createPayment', 'refundPayment'] } },
+			},
+			{
+				displayName: 'Settlement Currency', name: 'settlementCurrency', type: 'options',
+				options: [
+					{ name: 'USD', value: 'USD' },
+					{ name: 'EUR', value: 'EUR' },
+				],
+				default: 'USD',
+				displayOptions: { show: { resource: ['payments'], operation: ['createPaymentIntent'] } },
+			},
+			{
+				displayName: 'Payment Chains', name: 'paymentChains', type: 'multiOptions',
+				options: CIRCLE_SUPPORTED_CHAINS.map(chain => ({ name: chain, value: chain })),
+				default: ['ETH'],
+				description: 'Blockchains the customer can pay on. A deposit address is issued for each.',
+				displayOptions: { show: { resource: ['payments'], operation: ['createPaymentIntent'] } },
+			},
+			{ displayName: 'Payment Intent ID', name: 'paymentIntentId', type: 'string', default: '', displayOptions: { show: { resource: ['payments'], operation: ['getPaymentIntent', 'expirePaymentIntent', 'listIntentPayments'] } } },
+			{
+				displayName: 'Blockchain', name: 'screeningChain', type: 'options',
+				options: PROGRAMMABLE_WALLET_BLOCKCHAINS.map(chain => ({ name: chain, value: chain })),
+				default: 'ETH',
+				displayOptions: { show: { resource: ['compliance'], operation: COMPLIANCE_SCREENING_OPERATIONS } },
+			},
+			{ displayName: 'Transaction Hash', name: 'txHash', type: 'string', default: '', displayOptions: { show: { resource: ['compliance'], operation: ['screenTransaction'] } } },
+			{ displayName: 'Strict Mode', name: 'strictMode', type: 'boolean', default: false, description: 'Whether to fail the item when the verdict is deny, so later nodes never act on it', displayOptions: { show: { resource: ['compliance'], operation: COMPLIANCE_SCREENING_OPERATIONS } } },
+			circleIdLocator('Payout', 'payoutId', 'searchPayouts', { show: { resource: ['payouts'], operation: ['getPayout'] } }),
+			{
+				displayName: 'Destination Type', name: 'payoutDestinationType', type: 'options',
+				options: [
+					{ name: 'Wire Bank Account', value: 'wire' },
+					{ name: 'ACH Bank Account', value: 'ach' },
+					{ name: 'Blockchain Recipient', value: 'address_book', description: 'Recipient from the crypto address book' },
+				],
+				default: 'wire',
+				displayOptions: { show: { resource: ['payouts'], operation: ['createPayout'] } },
+			},
+			{
+				...circleIdLocator('Destination', 'destinationId', 'searchPayoutDestinations', { show: { resource: ['payouts'], operation: ['createPayout'] } }),
+				description: 'Bank account or address book recipient, depending on Destination Type',
+			},
+			{ displayName: 'Amount', name: 'amount', type: 'string', default: '', displayOptions: { show: { resource: ['payouts'], operation: ['createPayout'] } } },
+			{
+				displayName: 'Currency', name: 'currency', type: 'options',
+				options: [
+					{ name: 'USD', value: 'USD' },
+					{ name: 'EUR', value: 'EUR' },
+				],
+				default: 'USD',
+				description: 'Currency debited from your balance. Blockchain recipients receive the matching stablecoin.',
+				displayOptions: { show: { resource: ['payouts'], operation: ['createPayout'] } },
+			},
+			{ displayName: 'Beneficiary Email', name: 'beneficiaryEmail', type: 'string', placeholder: 'name@email.com', default: '', displayOptions: { show: { resource: ['payouts'], operation: ['createPayout'], payoutDestinationType: ['wire', 'ach'] } } },
+			{
+				displayName: 'Travel Rule Identities', name: 'travelRule', type: 'fixedCollection', placeholder: 'Add Identity', default: {},
+				description: 'Originator and beneficiary information sent with transfers at or above the Travel Rule Threshold',
+				displayOptions: { show: { resource: ['accounts', 'payouts'], operation: ['createTransfer', 'createPayout'] } },
+				options: [
+					{ displayName: 'Originator', name: 'originator', values: travelRuleIdentityFields() },
+					{ displayName: 'Beneficiary', name: 'beneficiary', values: travelRuleIdentityFields() },
+				],
+			},
+			{
+				displayName: 'Travel Rule Threshold', name: 'travelRuleThreshold', type: 'number', default: DEFAULT_TRAVEL_RULE_THRESHOLD,
+				description: 'Amounts at or above this need a complete originator (name and address) and beneficiary (name), which are then sent to Circle, e.g. 3000 for the US Travel Rule. Use 0 to always send them; the default -1 never checks or sends them.',
+				displayOptions: { show: { resource: ['accounts', 'payouts'], operation: ['createTransfer', 'createPayout'] } },
+			},
+			{ displayName: 'Wait for Final Status', name: 'waitForCompletion', type: 'boolean', default: false, description: 'Whether to poll until Circle reports a final status. Failed or returned ones fail the item.', displayOptions: { show: { resource: ['accounts', 'payments', 'payouts'], operation: ['createTransfer', 'createPayment', 'createPayout', 'getPayout'] } } },
+			{
+				displayName: 'Wait Until', name: 'paymentWaitUntil', type: 'options',
+				options: [
+					{ name: 'Confirmed', value: 'confirmed', description: 'Stop once Circle accepts the payment (confirmed), or it fails' },
+					{ name: 'Paid', value: 'paid', description: 'Stop once the payment settles (paid), or it fails. Card payments can take days, so raise the timeout.' },
+				],
+				default: 'confirmed',
+				description: 'Status that ends the wait for a payment. Confirmed payments move on to paid at settlement.',
+				displayOptions: { show: { resource: ['payments'], operation: ['createPayment'], waitForCompletion: [true] } },
+			},
+			{ displayName: 'Poll Interval (Seconds)', name: 'pollInterval', type: 'number', typeOptions: { minValue: 1 }, default: 10, description: 'Wait before the first poll; it grows by half after each poll, up to 60 seconds', displayOptions: { show: { resource: ['accounts', 'payments', 'payouts'], operation: ['createTransfer', 'createPayment', 'createPayout', 'getPayout'], waitForCompletion: [true] } } },
+			{ displayName: 'Timeout (Seconds)', name: 'waitTimeout', type: 'number', typeOptions: { minValue: 1 }, default: 600, displayOptions: { show: { resource: ['accounts', 'payments', 'payouts'], operation: ['createTransfer', 'createPayment', 'createPayout', 'getPayout'], waitForCompletion: [true] } } },
+			circleIdLocator('Recipient', 'recipientId', 'searchRecipients', { show: { resource: ['payouts'], operation: ['getRecipient', 'deleteRecipient'] } }),
+			{
+				displayName: 'Chain', name: 'chain', type: 'options',
+				options: CIRCLE_SUPPORTED_CHAINS.map(chain => ({ name: chain, value: chain })),
+				default: 'ETH',
+				displayOptions: { show: { resource: ['payouts', 'businessAccount', 'sandbox'], operation: ['createRecipient', 'createDepositAddress', 'mockBlockchainDeposit'] } },
+			},
+			{
+				displayName: 'Currency', name: 'currency', type: 'options',
+				options: [
+					{ name: 'USD (USDC)', value: 'USD' },
+					{ name: 'EUR (EURC)', value: 'EUR' },
+				],
+				default: 'USD',
+				displayOptions: { show: { resource: ['businessAccount'], operation: ['createDepositAddress', 'createTransfer'] } },
+			},
+			{ displayName: 'Tracking Reference', name: 'trackingRef', type: 'string', default: '', description: 'Reference from the wire instructions', displayOptions: { show: { resource: ['sandbox'], operation: ['mockIncomingWire'] } } },
+			{ displayName: 'Beneficiary Account Number', name: 'beneficiaryAccountNumber', type: 'string', default: '', description: 'Account number from the wire instructions', displayOptions: { show: { resource: ['sandbox'], operation: ['mockIncomingWire'] } } },
+			circleIdLocator('Payout', 'payoutId', 'searchPayouts', { show: { resource: ['sandbox'], operation: ['mockPushToCard'] } }),
+			{
+				displayName: 'Outcome', name: 'mockOutcome', type: 'options',
+				options: [
+					{ name: 'Complete', value: 'complete' },
+					{ name: 'Failed', value: 'failed' },
+				],
+				default: 'complete',
+				displayOptions: { show: { resource: ['sandbox'], operation: ['mockPushToCard'] } },
+			},
+			{ displayName: 'Error Code', name: 'mockErrorCode', type: 'string', default: '', placeholder: 'card_declined', displayOptions: { show: { resource: ['sandbox'], operation: ['mockPushToCard'], mockOutcome: ['failed'] } } },
+			{ displayName: 'Amount', name: 'amount', type: 'string', default: '', displayOptions: { show: { resource: ['sandbox'], operation: ['mockIncomingWire', 'mockBlockchainDeposit'] } } },
+			{
+				displayName: 'Currency', name: 'currency', type: 'options',
+				options: [
+					{ name: 'USD', value: 'USD' },
+					{ name: 'EUR', value: 'EUR' },
+				],
+				default: 'USD',
+				displayOptions: { show: { resource: ['sandbox'], operation: ['mockIncomingWire', 'mockBlockchainDeposit'] } },
+			},
+			{
+				displayName: 'Sell Currency', name: 'fxFromCurrency', type: 'options',
+				options: FX_CURRENCIES.map(currency => ({ name: `${currency} to ${getFxCounterCurrency(currency)}`, value: currency })),
+				default: 'USDC',
+				displayOptions: { show: { resource: ['fx'], operation: ['createQuote'] } },
+			},
+			{
+				displayName: 'Fixed Side', name: 'fxAmountSide', type: 'options',
+				options: [
+					{ name: 'Sell Amount', value: 'from', description: 'Sell exactly this amount; Circle quotes what you receive' },
+					{ name: 'Buy Amount', value: 'to', description: 'Receive exactly this amount; Circle quotes what you pay' },
+				],
+				default: 'from',
+				displayOptions: { show: { resource: ['fx'], operation: ['createQuote'] } },
+			},
+			{ displayName: 'Amount', name: 'amount', type: 'string', default: '', placeholder: '1000.00', displayOptions: { show: { resource: ['fx'], operation: ['createQuote'] } } },
+			{ displayName: 'Quote ID', name: 'quoteId', type: 'string', default: '', description: 'ID from Request Quote; the trade fails once the quote has expired', displayOptions: { show: { resource: ['fx'], operation: ['createTrade'] } } },
+			{ displayName: 'Trade ID', name: 'tradeId', type: 'string', default: '', displayOptions: { show: { resource: ['fx'], operation: ['getTrade'] } } },
+			{ displayName: 'Settlement ID', name: 'settlementId', type: 'string', default: '', displayOptions: { show: { resource: ['fx'], operation: ['getTradeSettlement'] } } },
+			{ displayName: 'Recipient Address ID', name: 'addressId', type: 'string', default: '', description: 'ID of a verified recipient address, from List Recipient Addresses', displayOptions: { show: { resource: ['businessAccount'], operation: ['createTransfer'] } } },
+			{ displayName: 'Amount', name: 'amount', type: 'string', default: '', displayOptions: { show: { resource: ['businessAccount'], operation: ['createTransfer'] } } },
+			{
+				displayName: 'Deposit Type', name: 'depositType', type: 'options',
+				options: [
+					{ name: 'All', value: '' },
+					{ name: 'Wire', value: 'wire' },
+					{ name: 'Blockchain', value: 'blockchain' },
+				],
+				default: '',
+				displayOptions: { show: { resource: ['businessAccount'], operation: ['listDeposits'] } },
+			},
+			{ displayName: 'Address', name: 'address', type: 'string', default: '', displayOptions: { show: { resource: ['payouts'], operation: ['createRecipient'] } } },
+			{
+				displayName: 'Additional Fields', name: 'recipientOptions', type: 'collection', placeholder: 'Add Field', default: {},
+				displayOptions: { show: { resource: ['payouts'], operation: ['createRecipient'] } },
+				options: [
+					{ displayName: 'Address Tag', name: 'addressTag', type: 'string', default: '', description: 'Memo or tag for chains that need one (e.g. XLM, HBAR)' },
+					{ displayName: 'Nickname', name: 'nickname', type: 'string', default: '' },
+					{ displayName: 'Email', name: 'email', type: 'string', placeholder: 'name@email.com', default: '' },
+				],
+			},
+			{ displayName: 'Wallet Set Name', name: 'walletSetName', type: 'string', default: '', displayOptions: { show: { resource: ['programmableWallets'], operation: ['createWalletSet'] } } },
+			{ displayName: 'Wallet Set ID', name: 'walletSetId', type: 'string', default: '', displayOptions: { show: { resource: ['programmableWallets'], operation: ['createWallets'] } } },
+			{
+				displayName: 'Blockchains', name: 'blockchains', type: 'multiOptions',
+				options: PROGRAMMABLE_WALLET_BLOCKCHAINS.map(chain => ({ name: chain, value: chain })),
+				default: [],
+				description: 'Blockchains to create a wallet on',
+				displayOptions: { show: { resource: ['programmableWallets', 'userWallets'], operation: ['createWallets', 'initializeUser', 'createWalletChallenge'] } },
+			},
+			{ displayName: 'Wallets per Blockchain', name: 'walletCount', type: 'number', default: 1, typeOptions: { minValue: 1, maxValue: 20 }, displayOptions: { show: { resource: ['programmableWallets'], operation: ['createWallets'] } } },
+			{
+				displayName: 'Account Type', name: 'accountType', type: 'options',
+				options: [
+					{ name: 'Externally Owned Account (EOA)', value: 'EOA' },
+					{ name: 'Smart Contract Account (SCA)', value: 'SCA' },
+				],
+				default: 'EOA',
+				displayOptions: { show: { resource: ['programmableWallets', 'userWallets'], operation: ['createWallets', 'initializeUser', 'createWalletChallenge'] } },
+			},
+			{ displayName: 'User ID', name: 'userId', type: 'string', default: '', description: 'Your own identifier for the end user', displayOptions: { show: { resource: ['userWallets'], operation: ['createUser', 'createUserToken'] } } },
+			{ displayName: 'User Token', name: 'userToken', type: 'string', typeOptions: { password: true }, default: '', description: 'Session token from Create User Token', displayOptions: { show: { resource: ['userWallets'], operation: ['initializeUser', 'createWalletChallenge', 'createTransactionChallenge', 'getChallenge'] } } },
+			{ displayName: 'Challenge ID', name: 'challengeId', type: 'string', default: '', displayOptions: { show: { resource: ['userWallets'], operation: ['getChallenge'] } } },
+			{ displayName: 'Card ID', name: 'cardId', type: 'string', default: '', displayOptions: { show: { resource: ['cards'], operation: ['getCard', 'updateCard'] } } },
+			{ displayName: 'Card Number', name: 'cardNumber', type: 'string', typeOptions: { password: true }, default: '', description: 'Encrypted locally with Circle\'s PGP key before it is sent', displayOptions: { show: { resource: ['cards'], operation: ['createCard'] } } },
+			{ displayName: 'CVV', name: 'cvv', type: 'string', typeOptions: { password: true }, default: '', description: 'Encrypted locally with Circle\'s PGP key before it is sent', displayOptions: { show: { resource: ['cards'], operation: ['createCard', 'updateCard'] } } },
+			{ displayName: 'Expiry Month', name: 'expMonth', type: 'number', typeOptions: { minValue: 1, maxValue: 12 }, default: 1, displayOptions: { show: { resource: ['cards'], operation: ['createCard', 'updateCard'] } } },
+			{ displayName: 'Expiry Year', name: 'expYear', type: 'number', default: 2030, displayOptions: { show: { resource: ['cards'], operation: ['createCard', 'updateCard'] } } },
+			{
+				displayName: 'Billing Details', name: 'billingDetails', type: 'collection', placeholder: 'Add Field', default: {},
+				description: 'Name, Line 1, City, Postal Code and Country are required by Circle',
+				displayOptions: { show: { resource: ['cards', 'bankAccounts'], operation: ['createCard', 'createBankAccount'] } },
+				options: [
+					{ displayName: 'Name', name: 'name', type: 'string', default: '', description: 'Cardholder name' },
+					{ displayName: 'Line 1', name: 'line1', type: 'string', default: '' },
+					{ displayName: 'Line 2', name: 'line2', type: 'string', default: '' },
+					{ displayName: 'City', name: 'city', type: 'string', default: '' },
+					{ displayName: 'District', name: 'district', type: 'string', default: '', description: 'State or province' },
+					{ displayName: 'Postal Code', name: 'postalCode', type: 'string', default: '' },
+					{ displayName: 'Country', name: 'country', type: 'string', default: '', description: 'ISO 3166-1 alpha-2 country code' },
+				],
+			},
+			circleIdLocator('Bank Account', 'bankAccountId', 'searchBankAccounts', { show: { resource: ['bankAccounts', 'businessAccount'], operation: ['getBankAccount', 'getWireInstructions'] } }),
+			{
+				displayName: 'Account Type', name: 'bankAccountType', type: 'options',
+				options: [
+					{ name: 'US Bank', value: 'us', description: 'Account number and ABA routing number' },
+					{ name: 'IBAN', value: 'iban', description: 'Bank in a country that uses IBAN' },
+					{ name: 'Non-IBAN', value: 'nonIban', description: 'Account number and SWIFT/BIC code' },
+				],
+				default: 'us',
+				displayOptions: { show: { resource: ['bankAccounts'], operation: ['createBankAccount'] } },
+			},
+			{ displayName: 'Account Number', name: 'accountNumber', type: 'string', default: '', displayOptions: { show: { resource: ['bankAccounts'], operation: ['createBankAccount'], bankAccountType: ['us', 'nonIban'] } } },
+			{ displayName: 'Routing Number', name: 'routingNumber', type: 'string', default: '', description: 'ABA routing number for US banks, SWIFT/BIC code otherwise', displayOptions: { show: { resource: ['bankAccounts'], operation: ['createBankAccount'], bankAccountType: ['us', 'nonIban'] } } },
+			{ displayName: 'IBAN', name: 'iban', type: 'string', default: '', displayOptions: { show: { resource: ['bankAccounts'], operation: ['createBankAccount'], bankAccountType: ['iban'] } } },
+			{
+				displayName: 'Bank Address', name: 'bankAddress', type: 'collection', placeholder: 'Add Field', default: {},
+				description: 'Country is required by Circle; other fields are required for non-IBAN banks',
+				displayOptions: { show: { resource: ['bankAccounts'], operation: ['createBankAccount'] } },
+				options: [
+					{ displayName: 'Bank Name', name: 'bankName', type: 'string', default: '' },
+					{ displayName: 'Line 1', name: 'line1', type: 'string', default: '' },
+					{ displayName: 'Line 2', name: 'line2', type: 'string', default: '' },
+					{ displayName: 'City', name: 'city', type: 'string', default: '' },
+					{ displayName: 'District', name: 'district', type: 'string', default: '', description: 'State or province' },
+					{ displayName: 'Country', name: 'country', type: 'string', default: '', description: 'ISO 3166-1 alpha-2 country code' },
+				],
+			},
+			{
+				displayName: 'Currency', name: 'currency', type: 'options',
+				options: [
+					{ name: 'USD', value: 'USD' },
+					{ name: 'EUR', value: 'EUR' },
+				],
+				default: 'USD',
+				description: 'Currency the customer wires',
+				displayOptions: { show: { resource: ['bankAccounts'], operation: ['getWireInstructions'] } },
+			},
+			circleIdLocator('Wallet', 'walletId', 'searchProgrammableWallets', { show: { resource: ['programmableWallets', 'userWallets', 'contractPlatform'], operation: ['getWalletBalances', 'createTransaction', 'createTransactionChallenge', 'deployTemplate', 'deployBytecode', 'executeContract'] } }),
+			{ displayName: 'Token ID', name: 'tokenId', type: 'string', default: '', description: 'Circle token ID, as returned by Get Token Balances', displayOptions: { show: { resource: ['programmableWallets', 'userWallets'], operation: ['createTransaction', 'createTransactionChallenge'] } } },
+			{ displayName: 'Destination Address', name: 'destinationAddress', type: 'string', default: '', displayOptions: { show: { resource: ['programmableWallets', 'userWallets'], operation: ['createTransaction', 'createTransactionChallenge'] } } },
+			{
+				displayName: 'Fee Level', name: 'feeLevel', type: 'options',
+				options: [
+					{ name: 'Low', value: 'LOW' },
+					{ name: 'Medium', value: 'MEDIUM' },
+					{ name: 'High', value: 'HIGH' },
+				],
+				default: 'MEDIUM',
+				displayOptions: { show: { resource: ['programmableWallets', 'userWallets', 'contractPlatform'], operation: ['createTransaction', 'createTransactionChallenge', 'deployTemplate', 'deployBytecode', 'executeContract'] } },
+			},
+			{
+				displayName: 'Blockchain', name: 'contractBlockchain', type: 'options',
+				options: PROGRAMMABLE_WALLET_BLOCKCHAINS.map(chain => ({ name: chain, value: chain })),
+				default: 'ETH',
+				displayOptions: { show: { resource: ['contractPlatform'], operation: ['deployTemplate', 'deployBytecode', 'importContract', 'readContract', 'listEventLogs'] } },
+			},
+			{ displayName: 'Template ID', name: 'templateId', type: 'string', default: '', displayOptions: { show: { resource: ['contractPlatform'], operation: ['deployTemplate'] } } },
+			{ displayName: 'Template Parameters', name: 'templateParameters', type: 'json', default: '{}', description: 'Deployment parameters defined by the template, as a JSON object', displayOptions: { show: { resource: ['contractPlatform'], operation: ['deployTemplate'] } } },
+			{ displayName: 'Contract Name', name: 'contractName', type: 'string', default: '', displayOptions: { show: { resource: ['contractPlatform'], operation: ['deployTemplate', 'deployBytecode', 'importContract'] } } },
+			{ displayName: 'Contract Address', name: 'contractAddress', type: 'string', default: '', displayOptions: { show: { resource: ['contractPlatform'], operation: ['importContract', 'readContract', 'executeContract', 'listEventLogs'] } } },
+			{ displayName: 'ABI', name: 'abiJson', type: 'json', default: '', description: 'Contract ABI as a JSON array. Optional when calling a function by full signature; used to decode event logs when set.', displayOptions: { show: { resource: ['contractPlatform'], operation: ['deployBytecode', 'readContract', 'executeContract', 'listEventLogs'] } } },
+			{ displayName: 'Bytecode', name: 'bytecode', type: 'string', default: '', placeholder: '0x...', displayOptions: { show: { resource: ['contractPlatform'], operation: ['deployBytecode'] } } },
+			{ displayName: 'Constructor Parameters', name: 'constructorParameters', type: 'json', default: '[]', description: 'Constructor arguments as a JSON array', displayOptions: { show: { resource: ['contractPlatform'], operation: ['deployBytecode'] } } },
+			{ displayName: 'Function', name: 'functionName', type: 'string', default: '', placeholder: 'transfer(address,uint256)', description: 'Function name from the ABI, or its full signature', displayOptions: { show: { resource: ['contractPlatform'], operation: ['readContract', 'executeContract'] } } },
+			{ displayName: 'Function Parameters', name: 'functionParameters', type: 'json', default: '[]', description: 'Function arguments as a JSON array', displayOptions: { show: { resource: ['contractPlatform'], operation: ['readContract', 'executeContract'] } } },
+			{ displayName: 'Native Amount', name: 'nativeAmount', type: 'string', default: '', description: 'Amount of the native token to send with the call, for payable functions', displayOptions: { show: { resource: ['contractPlatform'], operation: ['executeContract'] } } },
+			{ displayName: 'Transaction ID', name: 'transactionId', type: 'string', default: '', displayOptions: { show: { resource: ['programmableWallets'], operation: ['getTransaction'] } } },
+			circleIdLocator('Subscription', 'subscriptionId', 'searchSubscriptions', { show: { resource: ['webhooks'], operation: ['deleteSubscription'] } }),
+			{
+				displayName: 'Method', name: 'httpMethod', type: 'options',
+				options: [
+					{ name: 'DELETE', value: 'DELETE' },
+					{ name: 'GET', value: 'GET' },
+					{ name: 'PATCH', value: 'PATCH' },
+					{ name: 'POST', value: 'POST' },
+					{ name: 'PUT', value: 'PUT' },
+				],
+				default: 'GET',
+				displayOptions: { show: { resource: ['customApi'] } },
+			},
+			{ displayName: 'Path', name: 'path', type: 'string', default: '', required: true, placeholder: '/v1/businessAccount/balances', description: 'Path relative to the Circle API base URL of the credential environment', displayOptions: { show: { resource: ['customApi'] } } },
+			{ displayName: 'Query Parameters', name: 'queryParameters', type: 'json', default: '{}', description: 'Query string parameters as a JSON object', displayOptions: { show: { resource: ['customApi'] } } },
+			{ displayName: 'Body', name: 'body', type: 'json', default: '{}', description: 'JSON request body', displayOptions: { show: { resource: ['customApi'], httpMethod: ['POST', 'PUT', 'PATCH'] } } },
+			{ displayName: 'Send Idempotency Key', name: 'sendIdempotencyKey', type: 'boolean', default: false, description: 'Whether to add an idempotency key to the body and the X-Idempotency-Key header', displayOptions: { show: { resource: ['customApi'], httpMethod: ['POST', 'PUT', 'PATCH'] } } },
+			{ displayName: 'Paginate', name: 'paginateResults', type: 'boolean', default: false, description: 'Whether the endpoint returns a list to walk with pageAfter cursors', displayOptions: { show: { resource: ['customApi'], httpMethod: ['GET'] } } },
+			{
+				displayName: 'Idempotency Key Mode', name: 'idempotencyKeyMode', type: 'options',
+				options: [
+					{ name: 'Auto Generate', value: 'auto', description: 'Send a random UUID for every call' },
+					{ name: 'Custom', value: 'custom', description: 'Send the key given in Idempotency Key' },
+					{ name: 'Derive From Item Fields', value: 'derived', description: 'Send a UUIDv5 derived from the operation, item fields and the credential prefix' },
+				],
+				default: 'auto',
+				description: 'How to build the idempotency key that lets Circle deduplicate retried calls',
+				displayOptions: {
+					show: { resource: [...PLATFORM_RESOURCES, 'compliance'], operation: IDEMPOTENT_OPERATIONS },
+					hide: { httpMethod: ['GET', 'DELETE'], sendIdempotencyKey: [false] },
+				},
+			},
+			{
+				displayName: 'Idempotency Key', name: 'idempotencyKey', type: 'string', default: '',
+				placeholder: '={{ $json.invoiceUuid }}',
+				description: 'Key to send, usually an expression that stays the same when the execution is retried',
+				displayOptions: {
+					show: { resource: [...PLATFORM_RESOURCES, 'compliance'], operation: IDEMPOTENT_OPERATIONS, idempotencyKeyMode: ['custom'] },
+					hide: { httpMethod: ['GET', 'DELETE'], sendIdempotencyKey: [false] },
+				},
+			},
+			{
+				displayName: 'Idempotency Key Fields', name: 'idempotencyKeyFields', type: 'string', default: '',
+				placeholder: 'invoiceId, amount',
+				description: 'Comma-separated input item fields (dot notation supported) whose values identify this call',
+				displayOptions: {
+					show: { resource: [...PLATFORM_RESOURCES, 'compliance'], operation: IDEMPOTENT_OPERATIONS, idempotencyKeyMode: ['derived'] },
+					hide: { httpMethod: ['GET', 'DELETE'], sendIdempotencyKey: [false] },
+				},
+			},
+			{
+				displayName: 'Return All', name: 'returnAll', type: 'boolean', default: false,
+				description: 'Whether to return all results or only up to a given limit',
+				displayOptions: {
+					show: { resource: PLATFORM_RESOURCES, operation: PAGINATED_OPERATIONS },
+					hide: { httpMethod: ['POST', 'PUT', 'PATCH', 'DELETE'], paginateResults: [false] },
+				},
+			},
+			{
+				displayName: 'Limit', name: 'limit', type: 'number', default: 50, typeOptions: { minValue: 1 },
+				description: 'Max number of results to return',
+				displayOptions: {
+					show: { resource: PLATFORM_RESOURCES, operation: PAGINATED_OPERATIONS, returnAll: [false] },
+					hide: { httpMethod: ['POST', 'PUT', 'PATCH', 'DELETE'], paginateResults: [false] },
+				},
+			},
+			{
+				displayName: 'Filters', name: 'filters', type: 'collection', placeholder: 'Add Filter', default: {},
+				displayOptions: { show: { resource: PLATFORM_RESOURCES, operation: PAGINATED_OPERATIONS }, hide: { operation: ['customApiCall'] } },
+				options: [
+					{
+						displayName: 'Status', name: 'status', type: 'multiOptions', default: [],
+						options: LIST_STATUS_OPTIONS.map(status => ({ name: status.replace(/_/g, ' ').replace(/^\w/, c => c.toUpperCase()), value: status })),
+						displayOptions: { show: { '/operation': getFilterOperations('status') } },
+					},
+					{ displayName: 'From', name: 'from', type: 'dateTime', default: '', description: 'Only return records created at or after this time' },
+					{ displayName: 'To', name: 'to', type: 'dateTime', default: '', description: 'Only return records created at or before this time' },
+					{ displayName: 'Wallet ID', name: 'walletId', type: 'string', default: '', description: 'Only return records involving this wallet. Programmable Wallets accept a comma-separated list.', displayOptions: { show: { '/operation': getFilterOperations('walletId') } } },
+					{ displayName: 'Source ID', name: 'sourceId', type: 'string', default: '', description: 'Wallet ID, payment source ID or address the funds came from', displayOptions: { show: { '/operation': getFilterOperations('sourceId') } } },
+					{ displayName: 'Destination ID', name: 'destinationId', type: 'string', default: '', description: 'Wallet ID, bank account ID or address the funds went to', displayOptions: { show: { '/operation': getFilterOperations('destinationId') } } },
+					{ displayName: 'Page Size', name: 'pageSize', type: 'number', default: 50, typeOptions: { minValue: 1, maxValue: 50 }, description: 'Records requested per call to Circle' },
+				],
+			},
 			{ displayName: 'Webhook Endpoint', name: 'webhookEndpoint', type: 'string', default: '', displayOptions: { show: { resource: ['webhooks'], operation: ['createSubscription'] } } },
 			{ displayName: 'From Block', name: 'fromBlock', type: 'number', default: 0, displayOptions: { show: { operation: ['getTransferHistory'] } } },
 			{ displayName: 'To Block', name: 'toBlock', type: 'number', default: 0, displayOptions: { show: { operation: ['getTransferHistory'] } } },
@@ -280,14 +1003,12 @@ export class Circle implements INodeType {
 				default: 'USDC',
 				displayOptions: { show: { resource: ['accounts'], operation: ['createTransfer', 'createAddress'] } },
 			},
-			{
-				displayName: 'Source ID', name: 'sourceId', type: 'string', default: '',
-				displayOptions: { show: { resource: ['accounts'], operation: ['createTransfer'] } },
-			},
+			circleIdLocator('Source Wallet', 'sourceId', 'searchWallets', { show: { resource: ['accounts'], operation: ['createTransfer'] } }, '1000216185'),
 			{
 				displayName: 'Destination ID/Address', name: 'destinationId', type: 'string', default: '',
 				displayOptions: { show: { resource: ['accounts'], operation: ['createTransfer'] } },
 			},
+			{ displayName: 'Amount', name: 'amount', type: 'string', default: '', placeholder: '100.00', displayOptions: { show: { resource: ['accounts'], operation: ['createTransfer'] } } },
 			{
 				displayName: 'Transfers', name: 'transfers', type: 'fixedCollection',
 				typeOptions: { multipleValues: true },
@@ -301,6 +1022,62 @@ export class Circle implements INodeType {
 		],
 	};
 
+	methods = {
+		credentialTest: {
+			async circlePlatformApiTest(this: ICredentialTestFunctions, credential: ICredentialsDecrypted): Promise<INodeCredentialTestResult> {
+				return testPlatformCredential(credential.data ?? {});
+			},
+			async circleBlockchainTest(this: ICredentialTestFunctions, credential: ICredentialsDecrypted): Promise<INodeCredentialTestResult> {
+				return testBlockchainCredential(credential.data ?? {});
+			},
+			async circleCctpTest(this: ICredentialTestFunctions, credential: ICredentialsDecrypted): Promise<INodeCredentialTestResult> {
+				return testCctpCredential(credential.data ?? {});
+			},
+		},
+		listSearch: {
+			async searchWallets(this: ILoadOptionsFunctions, filter?: string, paginationToken?: string): Promise<INodeListSearchResult> {
+				return searchWallets(await createPlatformClient(this), filter, paginationToken);
+			},
+			async searchRecipients(this: ILoadOptionsFunctions, filter?: string, paginationToken?: string): Promise<INodeListSearchResult> {
+				return searchRecipients(await createPlatformClient(this), filter, paginationToken);
+			},
+			async searchSubscriptions(this: ILoadOptionsFunctions, filter?: string, paginationToken?: string): Promise<INodeListSearchResult> {
+				return searchSubscriptions(await createPlatformClient(this), filter, paginationToken);
+			},
+			async searchBankAccounts(this: ILoadOptionsFunctions, filter?: string, paginationToken?: string): Promise<INodeListSearchResult> {
+				const source = this.getCurrentNodeParameter('resource') === 'businessAccount' ? 'business' : 'wire';
+				return searchBankAccounts(await createPlatformClient(this), source, filter, paginationToken);
+			},
+			async searchPayouts(this: ILoadOptionsFunctions, filter?: string, paginationToken?: string): Promise<INodeListSearchResult> {
+				return searchPayouts(await createPlatformClient(this), filter, paginationToken);
+			},
+			async searchPayoutDestinations(this: ILoadOptionsFunctions, filter?: string, paginationToken?: string): Promise<INodeListSearchResult> {
+				const destinationType = this.getCurrentNodeParameter('payoutDestinationType');
+				if (destinationType === 'address_book') {
+					return searchRecipients(await createPlatformClient(this), filter, paginationToken);
+				}
+				// Circle has no endpoint listing ACH bank accounts
+				if (destinationType === 'ach') {
+					return { results: [] };
+				}
+				return searchBankAccounts(await createPlatformClient(this), 'wire', filter, paginationToken);
+			},
+			async searchProgrammableWallets(this: ILoadOptionsFunctions, filter?: string, paginationToken?: string): Promise<INodeListSearchResult> {
+				if (this.getCurrentNodeParameter('resource') !== 'userWallets') {
+					return searchProgrammableWallets(await createPlatformClient(this), filter, paginationToken);
+				}
+				// User wallets are only listed for a user token entered as a plain value
+				const userToken = String(this.getCurrentNodeParameter('userToken') ?? '');
+				if (!userToken || userToken.startsWith('=')) {
+					throw new NodeOperationError(this.getNode(), 'User wallets can only be listed for a User Token entered as a fixed value', {
+						description: 'Enter the wallet By ID or By URL when the User Token is empty or an expression',
+					});
+				}
+				return searchProgrammableWallets(await createPlatformClient(this), filter, paginationToken, userToken);
+			},
+		},
+	};
+
 	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const items = this.getInputData();
 		const returnData: INodeExecutionData[] = [];
@@ -309,16 +1086,10 @@ export class Circle implements INodeType {
 
 		for (let i = 0; i < items.length; i++) {
 			try {
-				let result: IDataObject = {};
-
-				if (['accounts', 'payments', 'payouts', 'core', 'webhooks'].includes(resource)) {
-					const credentials = await this.getCredentials('circlePlatform');
-					const client = createCircleApiClient({
-						apiKey: credentials.apiKey as string,
-						environment: credentials.environment as 'production' | 'sandbox',
-						entitySecret: credentials.entitySecret as string,
-						idempotencyKeyPrefix: credentials.idempotencyKeyPrefix as string,
-					});
+				let result: IDataObject | IDataObject[] = {};
+
+				if (PLATFORM_RESOURCES.includes(resource) || (resource === 'compliance' && COMPLIANCE_SCREENING_OPERATIONS.includes(operation))) {
+					const client = await createPlatformClient(this);
 					result = await executeCircleApi(this, client, resource, operation, i);
 				} else if (['usdc', 'eurc', 'smartContract', 'compliance'].includes(resource)) {
 					const credentials = await this.getCredentials('circleBlockchain');
@@ -343,12 +1114,30 @@ export class Circle implements INodeType {
 					result = await executeUtility(this, resource, operation, i);
 				}
 
-				returnData.push({ json: result });
+				if (Array.isArray(result)) {
+					returnData.push(...result.map(json => ({ json, pairedItem: { item: i } })));
+				} else {
+					returnData.push({ json: result, pairedItem: { item: i } });
+				}
 			} catch (error) {
 				if (this.continueOnFail()) {
-					returnData.push({ json: { error: error instanceof Error ? error.message : 'Unknown error' }, pairedItem: { item: i } });
+					const json = error instanceof CircleError
+						? { ...error.toJSON(), error: error.message } as IDataObject
+						: { error: error instanceof Error ? error.message : 'Unknown error' } as IDataObject;
+					if (error instanceof NodeOperationError && error.context.lastResult) {
+						json.lastResult = error.context.lastResult;
+					}
+					returnData.push({ json, pairedItem: { item: i } });
 					continue;
 				}
+				if (error instanceof CircleError) {
+					throw new NodeApiError(this.getNode(), error.toJSON() as JsonObject, {
+						message: error.message,
+						description: error.description,
+						httpCode: error.httpStatus !== undefined ? String(error.httpStatus) : undefined,
+						itemIndex: i,
+					});
+				}
 				throw new NodeOperationError(this.getNode(), error instanceof Error ? error : new Error('Unknown error'), { itemIndex: i });
 			}
 		}
@@ -356,35 +1145,702 @@ export class Circle implements INodeType {
 	}
 }
 
-async function executeCircleApi(ctx: IExecuteFunctions, client: CircleApiClient, resource: string, operation: string, i: number): Promise<IDataObject> {
+async function createPlatformClient(ctx: IExecuteFunctions | ILoadOptionsFunctions): Promise<CircleApiClient> {
+	const credentials = await ctx.getCredentials('circlePlatform');
+	return createCircleApiClient({
+		apiKey: credentials.apiKey as string,
+		environment: credentials.environment as 'production' | 'sandbox',
+		entitySecret: credentials.entitySecret as string,
+		idempotencyKeyPrefix: credentials.idempotencyKeyPrefix as string,
+		maxRetries: credentials.maxRetries as number | undefined,
+		maxRetryDelay: credentials.maxRetryDelay as number | undefined,
+	});
+}
+
+async function listAll(
+	ctx: IExecuteFunctions,
+	client: CircleApiClient,
+	i: number,
+	fetchPage: (params: PaginationParams) => Promise<Record<string, unknown>[]>,
+	cursorField?: string,
+): Promise<IDataObject[]> {
+	const returnAll = ctx.getNodeParameter('returnAll', i) as boolean;
+	const limit = returnAll ? undefined : ctx.getNodeParameter('limit', i) as number;
+	const { pageSize, query } = getListFilters(ctx, i);
+	return await client.paginate(params => fetchPage({ ...query, ...params } as PaginationParams), { returnAll, limit, pageSize, cursorField }) as IDataObject[];
+}
+
+/**
+ * Map the Filters collection to the query parameters of the current list operation
+ */
+function getListFilters(ctx: IExecuteFunctions, i: number): { pageSize?: number; query: IDataObject } {
+	const filters = ctx.getNodeParameter('filters', i, {}) as IDataObject;
+	const params = LIST_FILTER_PARAMS[ctx.getNodeParameter('operation', i) as string] || {};
+	const query: IDataObject = {};
+
+	for (const bound of ['from', 'to'] as const) {
+		if (!filters[bound]) continue;
+		const date = new Date(filters[bound] as string);
+		if (Number.isNaN(date.getTime())) {
+			throw new NodeOperationError(ctx.getNode(), `Filter "${bound}" is not a valid date: ${filters[bound]}`, { itemIndex: i });
+		}
+		query[bound] = date.toISOString();
+	}
+
+	const statuses = (filters.status || []) as string[];
+	if (params.status && statuses.length) {
+		// Programmable Wallets filter on an upper-case `state`
+		query[params.status] = params.status === 'state' ? statuses.map(status => status.toUpperCase()) : statuses;
+	}
+	for (const filter of ['walletId', 'sourceId', 'destinationId'] as const) {
+		const value = String(filters[filter] || '').trim();
+		if (params[filter] && value) {
+			query[params[filter] as string] = value;
+		}
+	}
+
+	return { pageSize: filters.pageSize as number | undefined, query };
+}
+
+function getIdempotencyKey(ctx: IExecuteFunctions, client: CircleApiClient, i: number): string {
+	const mode = ctx.getNodeParameter('idempotencyKeyMode', i, 'auto') as string;
+
+	if (mode === 'custom') {
+		const key = String(ctx.getNodeParameter('idempotencyKey', i, '')).trim();
+		if (!key) {
+			throw new NodeOperationError(ctx.getNode(), 'Idempotency Key must not be empty', { itemIndex: i });
+		}
+		if (!isValidUuid(key)) {
+			throw new NodeOperationError(ctx.getNode(), `Idempotency Key must be a UUID such as 1f8bdfde-7b62-4d5a-a1f8-5c2a8f8c1d2e, got "${key}"`, { itemIndex: i });
+		}
+		return key;
+	}
+
+	if (mode === 'derived') {
+		const fields = (ctx.getNodeParameter('idempotencyKeyFields', i, '') as string)
+			.split(',')
+			.map(field => field.trim())
+			.filter(field => field);
+		if (fields.length === 0) {
+			throw new NodeOperationError(ctx.getNode(), 'Idempotency Key Fields must list at least one field', { itemIndex: i });
+		}
+
+		const json = ctx.getInputData()[i].json;
+		const values = fields.map(field => {
+			const value = field.split('.').reduce<unknown>((obj, key) => (obj as IDataObject | undefined)?.[key], json);
+			if (value === undefined) {
+				throw new NodeOperationError(ctx.getNode(), `Field '${field}' used for the idempotency key is missing from the input item`, { itemIndex: i });
+			}
+			return value;
+		});
+		const operation = `${ctx.getNodeParameter('resource', i)}.${ctx.getNodeParameter('operation', i)}`;
+		return client.deriveIdempotencyKey(operation, values);
+	}
+
+	return client.createIdempotencyKey();
+}
+
+function getUserToken(ctx: IExecuteFunctions, i: number): string {
+	const userToken = ctx.getNodeParameter('userToken', i) as string;
+	if (isJwtExpired(userToken)) {
+		const expiresAt = getJwtExpiry(userToken);
+		throw new NodeOperationError(ctx.getNode(), 'User token has expired', {
+			itemIndex: i,
+			description: `${expiresAt ? `The token expired at ${expiresAt.toISOString()}. ` : ''}Mint a new one with Create User Token.`,
+		});
+	}
+	return userToken;
+}
+
+/**
+ * Add per-chain deposit addresses and a chronological status timeline to a
+ * payment intent
+ */
+function formatPaymentIntent(intent: Record<string, unknown>): IDataObject {
+	const paymentMethods = (intent.paymentMethods || []) as Array<{ chain?: string; address?: string }>;
+	const depositAddresses: IDataObject = {};
+	for (const method of paymentMethods) {
+		if (method.chain && method.address) {
+			depositAddresses[method.chain] = method.address;
+		}
+	}
+
+	const timeline = [...((intent.timeline || []) as Array<{ status: string; context?: string; time: string }>)]
+		.sort((a, b) => Date.parse(a.time) - Date.parse(b.time));
+
+	return { ...intent, depositAddresses, timeline } as IDataObject;
+}
+
+/**
+ * Send the request configured in the Custom API Call operation
+ */
+async function executeCustomApiCall(ctx: IExecuteFunctions, client: CircleApiClient, i: number): Promise<IDataObject | IDataObject[]> {
+	const method = ctx.getNodeParameter('httpMethod', i) as HttpMethod;
+	const path = (ctx.getNodeParameter('path', i) as string).trim();
+	const query = (parseJsonParameter(ctx, 'queryParameters', i) || {}) as IDataObject;
+
+	if (method === 'GET' && ctx.getNodeParameter('paginateResults', i, false)) {
+		return await listAll(ctx, client, i, async params => {
+			const page = await client.request<Record<string, unknown>[]>('GET', path, { query: { ...query, ...params } });
+			if (!Array.isArray(page)) {
+				throw new NodeOperationError(ctx.getNode(), `${path} does not return a list, turn off Paginate`, { itemIndex: i });
+			}
+			return page;
+		});
+	}
+
+	const hasBody = ['POST', 'PUT', 'PATCH'].includes(method);
+	const idempotencyKey = hasBody && ctx.getNodeParameter('sendIdempotencyKey', i, false) ? getIdempotencyKey(ctx, client, i) : undefined;
+	const result = await client.request(method, path, {
+		query,
+		body: hasBody ? parseJsonParameter(ctx, 'body', i) : undefined,
+		useIdempotency: idempotencyKey !== undefined,
+		idempotencyKey,
+	});
+
+	if (Array.isArray(result)) return result as IDataObject[];
+
+	let json: IDataObject;
+	if (result !== null && typeof result === 'object') {
+		json = result as IDataObject;
+	} else if (result === undefined || result === '') {
+		json = { success: true };
+	} else {
+		json = { data: result as IDataObject['data'] };
+	}
+	return idempotencyKey ? { ...json, idempotencyKey } : json;
+}
+
+/**
+ * Read a JSON parameter that may arrive as a string or an already-parsed value
+ */
+function parseJsonParameter(ctx: IExecuteFunctions, name: string, i: number): unknown {
+	const value = ctx.getNodeParameter(name, i, '');
+	if (typeof value !== 'string') return value;
+	if (!value.trim()) return undefined;
+	try {
+		return JSON.parse(value);
+	} catch {
+		throw new NodeOperationError(ctx.getNode(), `${name} must be valid JSON`, { itemIndex: i });
+	}
+}
+
+/**
+ * Contract ABI as a JSON string, or undefined when left empty
+ */
+function getAbiParameter(ctx: IExecuteFunctions, i: number): string | undefined {
+	const abi = parseJsonParameter(ctx, 'abiJson', i);
+	return abi === undefined ? undefined : JSON.stringify(abi);
+}
+
+/**
+ * Resolve the function signature and parameters for a contract call, validating them against the ABI when given
+ */
+function getContractCall(ctx: IExecuteFunctions, i: number, abiJson?: string): { abiFunctionSignature: string; abiParameters: unknown[] } {
+	const functionName = ctx.getNodeParameter('functionName', i) as string;
+	const abiParameters = parseAbiParameters(parseJsonParameter(ctx, 'functionParameters', i) as unknown[] | undefined);
+	if (abiJson) {
+		encodeFunctionCall(abiJson, functionName, abiParameters);
+	}
+	return { abiFunctionSignature: getAbiFunctionSignature(abiJson, functionName), abiParameters };
+}
+
+/**
+ * Add the normalized verdict to a screening result, failing the item on deny in strict mode
+ */
+function applyScreeningVerdict(ctx: IExecuteFunctions, i: number, screening: Record<string, unknown>, subject: string): IDataObject {
+	const summary = normalizeScreeningResult(screening);
+	if (summary.verdict === 'deny' && ctx.getNodeParameter('strictMode', i, false)) {
+		throw new CircleComplianceError(`${subject} was denied by compliance screening`, {
+			code: ERROR_CODES.COMPLIANCE_CHECK_FAILED,
+			details: summary.rules.map(rule => ({ error: 'rule_triggered', message: rule })),
+			retryable: false,
+		});
+	}
+	return { ...summary, screening } as IDataObject;
+}
+
+/**
+ * Poll intervals grow by this factor, up to MAX_POLL_INTERVAL
+ */
+const POLL_BACKOFF = 1.5;
+const MAX_POLL_INTERVAL = 60000;
+
+/**
+ * With Wait for Final Status on, poll a transfer, payout or payment until it
+ * reaches a terminal status. Failed or returned ones raise CircleFinalStatusError.
+ */
+async function waitForFinalStatus<T extends Transfer | Payout | Payment>(
+	ctx: IExecuteFunctions,
+	i: number,
+	kind: 'Transfer' | 'Payout' | 'Payment',
+	record: T,
+	fetch: (id: string) => Promise<T>,
+	terminalStatuses: string[],
+): Promise<T> {
+	if (!ctx.getNodeParameter('waitForCompletion', i, false)) {
+		return record;
+	}
+
+	const startedAt = Date.now();
+	const id = record.id;
+	let result = record;
+	if (!hasTerminalStatus(record, terminalStatuses)) {
+		try {
+			result = await pollUntil(() => fetch(id), current => hasTerminalStatus(current, terminalStatuses), {
+				interval: (ctx.getNodeParameter('pollInterval', i) as number) * 1000,
+				timeout: (ctx.getNodeParameter('waitTimeout', i) as number) * 1000,
+				backoff: POLL_BACKOFF,
+				maxInterval: MAX_POLL_INTERVAL,
+			});
+		} catch (error) {
+			if (error instanceof CircleError) throw error;
+			if (!(error instanceof PollTimeoutError)) {
+				throw new NodeOperationError(ctx.getNode(), `${kind} ${id}: ${(error as Error).message}`, { itemIndex: i });
+			}
+			const lastResult = error.lastResult as T;
+			const timeoutError = new NodeOperationError(ctx.getNode(), `${kind} ${id}: ${error.message}`, {
+				itemIndex: i,
+				description: `${kind} ${id} was created and was last seen with status ${lastResult.status}. Fetch it later to see how it ends.`,
+			});
+			timeoutError.context.lastResult = lastResult;
+			throw timeoutError;
+		}
+	}
+
+	const status = result.status;
+	if (FAILURE_STATUSES.includes(status)) {
+		const reason = result.errorCode ? ` (${result.errorCode})` : '';
+		throw new CircleFinalStatusError(`${kind} ${id} ended with status ${status}${reason}`, status, result);
+	}
+	return { ...result, elapsedSeconds: Math.round((Date.now() - startedAt) / 100) / 10 };
+}
+
+/**
+ * Read the Travel Rule identities of a transfer or payout, checking them against the threshold.
+ * Below the threshold, or with the check disabled, no identities are sent.
+ */
+function getTravelRuleIdentities(ctx: IExecuteFunctions, i: number, amount: string): { originator?: TravelRuleIdentity; beneficiary?: TravelRuleIdentity } {
+	const threshold = ctx.getNodeParameter('travelRuleThreshold', i, DEFAULT_TRAVEL_RULE_THRESHOLD) as number;
+	if (!isTravelRuleRequired(amount, threshold)) {
+		return {};
+	}
+	const travelRule = ctx.getNodeParameter('travelRule', i, {}) as { originator?: IDataObject; beneficiary?: IDataObject };
+	const identities = { originator: buildTravelRuleIdentity(travelRule.originator), beneficiary: buildTravelRuleIdentity(travelRule.beneficiary) };
+	try {
+		validateTravelRule(amount, threshold, identities);
+	} catch (error) {
+		throw new NodeOperationError(ctx.getNode(), (error as Error).message, { itemIndex: i });
+	}
+	return identities;
+}
+
+async function getMasterWalletId(ctx: IExecuteFunctions, client: CircleApiClient, i: number): Promise<string> {
+	const configuration = await client.getConfiguration() as { payments?: { masterWalletId?: string } };
+	if (!configuration.payments?.masterWalletId) {
+		throw new NodeOperationError(ctx.getNode(), 'Circle configuration has no master wallet to attach the originator identity to', { itemIndex: i });
+	}
+	return configuration.payments.masterWalletId;
+}
+
+/**
+ * Flatten wire instructions and add a ready-to-send email subject, text and HTML body
+ */
+function formatWireInstructions(instructions: Record<string, unknown>, bankAccountId: string, currency: string): IDataObject {
+	const beneficiary = (instructions.beneficiary || {}) as Record<string, string | undefined>;
+	const bank = (instructions.beneficiaryBank || {}) as Record<string, string | undefined>;
+	const trackingRef = instructions.trackingRef as string;
+
+	const fields: Array<[string, string | undefined]> = [
+		['Reference', trackingRef],
+		['Beneficiary Name', beneficiary.name],
+		['Beneficiary Address', [beneficiary.address1, beneficiary.address2].filter(Boolean).join(', ')],
+		['Bank Name', bank.name],
+		['Bank Address', [bank.address, bank.city, bank.postalCode, bank.country].filter(Boolean).join(', ')],
+		['Account Number', bank.accountNumber],
+		['Routing Number', bank.routingNumber],
+		['SWIFT Code', bank.swiftCode],
+		['Currency', bank.currency || currency],
+	];
+	const rows = fields.filter((field): field is [string, string] => !!field[1]);
+	const intro = `Please send your ${currency} wire to the account below and include the reference ${trackingRef} so we can match your deposit.`;
+	const escape = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+	return {
+		...instructions,
+		bankAccountId,
+		currency,
+		email: {
+			subject: `Wire transfer instructions (reference ${trackingRef})`,
+			text: [intro, '', ...rows.map(([label, value]) => `${label}: ${value}`)].join('\n'),
+			html: `<p>${escape(intro)}</p><table>${rows.map(([label, value]) => `<tr><th align="left">${escape(label)}</th><td>${escape(value)}</td></tr>`).join('')}</table>`,
+		},
+	};
+}
+
+async function executeCircleApi(ctx: IExecuteFunctions, client: CircleApiClient, resource: string, operation: string, i: number): Promise<IDataObject | IDataObject[]> {
 	switch (resource) {
 		case 'accounts':
 			switch (operation) {
-				case 'createWallet': return await client.createWallet({}) as IDataObject;
-				case 'getWallet': return await client.getWallet(ctx.getNodeParameter('walletId', i) as string) as IDataObject;
-				case 'listWallets': return { wallets: await client.getWallets() } as IDataObject;
+				case 'createWallet': {
+					const idempotencyKey = getIdempotencyKey(ctx, client, i);
+					return { ...await client.createWallet({}, idempotencyKey), idempotencyKey } as IDataObject;
+				}
+				case 'getWallet': return await client.getWallet(ctx.getNodeParameter('walletId', i, '', { extractValue: true }) as string) as IDataObject;
+				case 'listWallets': return await listAll(ctx, client, i, params => client.getWallets(params), 'walletId');
 				case 'getTransfer': return await client.getTransfer(ctx.getNodeParameter('transferId', i) as string) as IDataObject;
-				case 'listTransfers': return { transfers: await client.getTransfers() } as IDataObject;
-				case 'createAddress': return await client.createAddress(ctx.getNodeParameter('walletId', i) as string, { chain: ctx.getNodeParameter('chain', i) as string, currency: ctx.getNodeParameter('currency', i) as string }) as IDataObject;
-				case 'createTransfer': return await client.createTransfer({
-					source: { type: 'wallet', id: ctx.getNodeParameter('sourceId', i) as string },
-					destination: { type: 'blockchain', address: ctx.getNodeParameter('destinationId', i) as string, chain: ctx.getNodeParameter('chain', i) as string },
-					amount: { amount: ctx.getNodeParameter('amount', i) as string, currency: ctx.getNodeParameter('currency', i) as string },
-				}) as IDataObject;
+				case 'listTransfers': return await listAll(ctx, client, i, params => client.getTransfers(params));
+				case 'createAddress': {
+					const idempotencyKey = getIdempotencyKey(ctx, client, i);
+					return { ...await client.createAddress(ctx.getNodeParameter('walletId', i, '', { extractValue: true }) as string, { chain: ctx.getNodeParameter('chain', i) as string, currency: ctx.getNodeParameter('currency', i) as string }, idempotencyKey), idempotencyKey } as IDataObject;
+				}
+				case 'createTransfer': {
+					const amount = ctx.getNodeParameter('amount', i) as string;
+					const { originator, beneficiary } = getTravelRuleIdentities(ctx, i, amount);
+					const idempotencyKey = getIdempotencyKey(ctx, client, i);
+					const transfer = await client.createTransfer({
+						source: { type: 'wallet', id: ctx.getNodeParameter('sourceId', i, '', { extractValue: true }) as string, ...(originator ? { identities: [originator] } : {}) },
+						destination: {
+							type: 'blockchain',
+							address: ctx.getNodeParameter('destinationId', i) as string,
+							chain: ctx.getNodeParameter('chain', i) as string,
+							...(beneficiary ? { identities: [beneficiary] } : {}),
+						},
+						amount: { amount, currency: ctx.getNodeParameter('currency', i) as string },
+					}, idempotencyKey);
+					return { ...await waitForFinalStatus(ctx, i, 'Transfer', transfer, id => client.getTransfer(id), TRANSFER_TERMINAL_STATUSES), idempotencyKey } as IDataObject;
+				}
 			}
 			break;
 		case 'payments':
 			switch (operation) {
-				case 'listPayments': return { payments: await client.getPayments() } as IDataObject;
+				case 'listPayments': return await listAll(ctx, client, i, params => client.getPayments(params));
 				case 'getPayment': return await client.getPayment(ctx.getNodeParameter('paymentId', i) as string) as IDataObject;
-				case 'listSettlements': return { settlements: await client.getSettlements() } as IDataObject;
+				case 'createPayment': {
+					const metadata = ctx.getNodeParameter('paymentMetadata', i, {}) as IDataObject;
+					const options = ctx.getNodeParameter('paymentOptions', i, {}) as IDataObject;
+					const verification = ctx.getNodeParameter('verification', i) as string;
+					const encrypted = verification === 'cvv' ? await client.encryptCardDetails({ cvv: ctx.getNodeParameter('cvv', i) as string }) : {};
+					const idempotencyKey = getIdempotencyKey(ctx, client, i);
+					const payment = await client.createPayment({
+						source: { id: ctx.getNodeParameter('sourceId', i) as string, type: ctx.getNodeParameter('sourceType', i) as string },
+						amount: { amount: ctx.getNodeParameter('amount', i) as string, currency: ctx.getNodeParameter('currency', i) as string },
+						verification,
+						...encrypted,
+						...options,
+						metadata,
+					}, idempotencyKey);
+					const terminalStatuses = ctx.getNodeParameter('paymentWaitUntil', i, 'confirmed') === 'paid' ? PAYMENT_SETTLED_STATUSES : PAYMENT_TERMINAL_STATUSES;
+					return { ...await waitForFinalStatus(ctx, i, 'Payment', payment, id => client.getPayment(id), terminalStatuses), idempotencyKey } as IDataObject;
+				}
+				case 'cancelPayment': {
+					const idempotencyKey = getIdempotencyKey(ctx, client, i);
+					return { ...await client.cancelPayment(ctx.getNodeParameter('paymentId', i) as string, {
+						reason: ctx.getNodeParameter('reason', i) as string,
+					}, idempotencyKey), idempotencyKey } as IDataObject;
+				}
+				case 'refundPayment': {
+					const idempotencyKey = getIdempotencyKey(ctx, client, i);
+					return { ...await client.refundPayment(ctx.getNodeParameter('paymentId', i) as string, {
+						amount: { amount: ctx.getNodeParameter('amount', i) as string, currency: ctx.getNodeParameter('currency', i) as string },
+						reason: ctx.getNodeParameter('reason', i) as string,
+					}, idempotencyKey), idempotencyKey } as IDataObject;
+				}
+				case 'listRefunds': return await listAll(ctx, client, i, params => client.getPayments({ ...params, type: 'refund' }));
+				case 'listChargebacks': return await listAll(ctx, client, i, params => client.getChargebacks(params));
+				case 'listReversals': return await listAll(ctx, client, i, params => client.getReversals(params));
+				case 'listSettlements': return await listAll(ctx, client, i, params => client.getSettlements(params));
+				case 'createPaymentIntent': {
+					const intentType = ctx.getNodeParameter('intentType', i) as 'transient' | 'continuous';
+					const currency = ctx.getNodeParameter('currency', i) as string;
+					const chains = ctx.getNodeParameter('paymentChains', i) as string[];
+					if (chains.length === 0) {
+						throw new NodeOperationError(ctx.getNode(), 'Select at least one payment chain', { itemIndex: i });
+					}
+					const idempotencyKey = getIdempotencyKey(ctx, client, i);
+					const intent = await client.createPaymentIntent({
+						...(intentType === 'transient'
+							? { amount: { amount: ctx.getNodeParameter('amount', i) as string, currency } }
+							: { currency, type: 'continuous' }),
+						settlementCurrency: ctx.getNodeParameter('settlementCurrency', i) as string,
+						paymentMethods: chains.map(chain => ({ type: 'blockchain', chain })),
+					}, idempotencyKey);
+					return { ...formatPaymentIntent(intent), idempotencyKey };
+				}
+				case 'getPaymentIntent': return formatPaymentIntent(await client.getPaymentIntent(ctx.getNodeParameter('paymentIntentId', i) as string));
+				case 'listPaymentIntents': return (await listAll(ctx, client, i, params => client.getPaymentIntents(params))).map(formatPaymentIntent);
+				case 'expirePaymentIntent': return formatPaymentIntent(await client.expirePaymentIntent(ctx.getNodeParameter('paymentIntentId', i) as string));
+				case 'listIntentPayments': {
+					const paymentIntentId = ctx.getNodeParameter('paymentIntentId', i) as string;
+					return await listAll(ctx, client, i, params => client.getPayments({ ...params, paymentIntentId }));
+				}
+			}
+			break;
+		case 'bankAccounts':
+			switch (operation) {
+				case 'createBankAccount': {
+					const accountType = ctx.getNodeParameter('bankAccountType', i) as string;
+					const idempotencyKey = getIdempotencyKey(ctx, client, i);
+					return { ...await client.createWireBankAccount({
+						...(accountType === 'iban'
+							? { iban: ctx.getNodeParameter('iban', i) as string }
+							: { accountNumber: ctx.getNodeParameter('accountNumber', i) as string, routingNumber: ctx.getNodeParameter('routingNumber', i) as string }),
+						billingDetails: ctx.getNodeParameter('billingDetails', i, {}) as { name: string; line1: string; city: string; postalCode: string; country: string },
+						bankAddress: ctx.getNodeParameter('bankAddress', i, {}) as { country: string },
+					}, idempotencyKey), idempotencyKey } as IDataObject;
+				}
+				case 'getBankAccount': return await client.getWireBankAccount(ctx.getNodeParameter('bankAccountId', i, '', { extractValue: true }) as string) as IDataObject;
+				case 'listBankAccounts': return await listAll(ctx, client, i, params => client.getWireBankAccounts(params));
+				case 'getWireInstructions': {
+					const bankAccountId = ctx.getNodeParameter('bankAccountId', i, '', { extractValue: true }) as string;
+					const currency = ctx.getNodeParameter('currency', i) as string;
+					return formatWireInstructions(await client.getWireInstructions(bankAccountId, currency), bankAccountId, currency);
+				}
+			}
+			break;
+		case 'businessAccount':
+			switch (operation) {
+				case 'getBalances': return await client.getBalances() as IDataObject;
+				case 'listDepositAddresses': return await client.getBusinessDepositAddresses() as IDataObject[];
+				case 'createDepositAddress': {
+					const idempotencyKey = getIdempotencyKey(ctx, client, i);
+					return { ...await client.createBusinessDepositAddress({
+						currency: ctx.getNodeParameter('currency', i) as string,
+						chain: ctx.getNodeParameter('chain', i) as string,
+					}, idempotencyKey), idempotencyKey } as IDataObject;
+				}
+				case 'listRecipientAddresses': return await listAll(ctx, client, i, params => client.getBusinessRecipientAddresses(params));
+				case 'createTransfer': {
+					const idempotencyKey = getIdempotencyKey(ctx, client, i);
+					return { ...await client.createBusinessTransfer({
+						destination: { type: 'verified_blockchain', addressId: ctx.getNodeParameter('addressId', i) as string },
+						amount: { amount: ctx.getNodeParameter('amount', i) as string, currency: ctx.getNodeParameter('currency', i) as string },
+					}, idempotencyKey), idempotencyKey } as IDataObject;
+				}
+				case 'getTransfer': return await client.getBusinessTransfer(ctx.getNodeParameter('transferId', i) as string) as IDataObject;
+				case 'listTransfers': return await listAll(ctx, client, i, params => client.getBusinessTransfers(params));
+				case 'listDeposits': {
+					const type = ctx.getNodeParameter('depositType', i, '') as string;
+					return await listAll(ctx, client, i, params => client.getBusinessDeposits({ ...params, ...(type ? { type } : {}) }));
+				}
+				// Business bank accounts come back in one unpaginated response
+				case 'listBankAccounts': return await listAll(ctx, client, i, async params => params.pageAfter ? [] : client.getBusinessBankAccounts());
+				case 'getBankAccount': return await client.getBusinessBankAccount(ctx.getNodeParameter('bankAccountId', i, '', { extractValue: true }) as string) as IDataObject;
+			}
+			break;
+		case 'fx':
+			switch (operation) {
+				case 'createQuote': {
+					const from = ctx.getNodeParameter('fxFromCurrency', i) as string;
+					const amount = ctx.getNodeParameter('amount', i) as string;
+					const side = ctx.getNodeParameter('fxAmountSide', i) as 'from' | 'to';
+					const idempotencyKey = getIdempotencyKey(ctx, client, i);
+					const quote = await client.createFxQuote({
+						from: { currency: from, ...(side === 'from' ? { amount } : {}) },
+						to: { currency: getFxCounterCurrency(from), ...(side === 'to' ? { amount } : {}) },
+					}, idempotencyKey);
+					return { ...quote, ...getFxQuoteTerms(quote), idempotencyKey } as IDataObject;
+				}
+				case 'createTrade': {
+					const idempotencyKey = getIdempotencyKey(ctx, client, i);
+					return { ...await client.createFxTrade(ctx.getNodeParameter('quoteId', i) as string, idempotencyKey), idempotencyKey } as IDataObject;
+				}
+				case 'getTrade': return await client.getFxTrade(ctx.getNodeParameter('tradeId', i) as string) as IDataObject;
+				case 'listTrades': return await listAll(ctx, client, i, params => client.getFxTrades(params));
+				case 'getTradeSettlement': return await client.getFxSettlement(ctx.getNodeParameter('settlementId', i) as string) as IDataObject;
+				case 'listTradeSettlements': return await listAll(ctx, client, i, params => client.getFxSettlements(params));
+			}
+			break;
+		case 'compliance':
+			switch (operation) {
+				case 'screenAddress': {
+					const address = ctx.getNodeParameter('address', i) as string;
+					const chain = ctx.getNodeParameter('screeningChain', i) as string;
+					const idempotencyKey = getIdempotencyKey(ctx, client, i);
+					const screening = await client.screenAddress({ address, chain }, idempotencyKey);
+					return { ...applyScreeningVerdict(ctx, i, screening, `Address ${address} on ${chain}`), idempotencyKey };
+				}
+				case 'screenTransaction': {
+					const txHash = ctx.getNodeParameter('txHash', i) as string;
+					const chain = ctx.getNodeParameter('screeningChain', i) as string;
+					const idempotencyKey = getIdempotencyKey(ctx, client, i);
+					const screening = await client.screenTransaction({ txHash, chain }, idempotencyKey);
+					return { ...applyScreeningVerdict(ctx, i, screening, `Transaction ${txHash} on ${chain}`), idempotencyKey };
+				}
+			}
+			break;
+		case 'contractPlatform':
+			switch (operation) {
+				case 'deployTemplate': {
+					const idempotencyKey = getIdempotencyKey(ctx, client, i);
+					return { ...await client.deployContractTemplate(ctx.getNodeParameter('templateId', i) as string, {
+						blockchain: ctx.getNodeParameter('contractBlockchain', i) as string,
+						name: ctx.getNodeParameter('contractName', i) as string,
+						walletId: ctx.getNodeParameter('walletId', i, '', { extractValue: true }) as string,
+						templateParameters: parseJsonParameter(ctx, 'templateParameters', i) as Record<string, unknown>,
+						feeLevel: ctx.getNodeParameter('feeLevel', i) as string,
+					}, idempotencyKey), idempotencyKey };
+				}
+				case 'deployBytecode': {
+					const abiJson = getAbiParameter(ctx, i);
+					if (!abiJson) {
+						throw new NodeOperationError(ctx.getNode(), 'ABI is required to deploy from bytecode', { itemIndex: i });
+					}
+					const constructorParameters = parseAbiParameters(parseJsonParameter(ctx, 'constructorParameters', i) as unknown[]);
+					encodeConstructorArgs(abiJson, constructorParameters);
+					const idempotencyKey = getIdempotencyKey(ctx, client, i);
+					return { ...await client.deployContract({
+						blockchain: ctx.getNodeParameter('contractBlockchain', i) as string,
+						name: ctx.getNodeParameter('contractName', i) as string,
+						walletId: ctx.getNodeParameter('walletId', i, '', { extractValue: true }) as string,
+						abiJson,
+						bytecode: ctx.getNodeParameter('bytecode', i) as string,
+						constructorParameters,
+						feeLevel: ctx.getNodeParameter('feeLevel', i) as string,
+					}, idempotencyKey), idempotencyKey };
+				}
+				case 'importContract': {
+					const idempotencyKey = getIdempotencyKey(ctx, client, i);
+					return { ...await client.importContract({
+						blockchain: ctx.getNodeParameter('contractBlockchain', i) as string,
+						address: ctx.getNodeParameter('contractAddress', i) as string,
+						name: ctx.getNodeParameter('contractName', i) as string,
+					}, idempotencyKey), idempotencyKey } as IDataObject;
+				}
+				case 'readContract': {
+					const abiJson = getAbiParameter(ctx, i);
+					const call = getContractCall(ctx, i, abiJson);
+					const result = await client.queryContract({
+						blockchain: ctx.getNodeParameter('contractBlockchain', i) as string,
+						address: ctx.getNodeParameter('contractAddress', i) as string,
+						...call,
+						...(abiJson ? { abiJson } : {}),
+					});
+					return {
+						...result,
+						...(abiJson && result.outputData ? { decoded: decodeFunctionResult(abiJson, call.abiFunctionSignature, result.outputData) } : {}),
+					} as IDataObject;
+				}
+				case 'executeContract': {
+					const call = getContractCall(ctx, i, getAbiParameter(ctx, i));
+					const amount = ctx.getNodeParameter('nativeAmount', i, '') as string;
+					const idempotencyKey = getIdempotencyKey(ctx, client, i);
+					return { ...await client.createContractExecutionTransaction({
+						walletId: ctx.getNodeParameter('walletId', i, '', { extractValue: true }) as string,
+						contractAddress: ctx.getNodeParameter('contractAddress', i) as string,
+						...call,
+						...(amount ? { amount } : {}),
+						feeLevel: ctx.getNodeParameter('feeLevel', i) as string,
+					}, idempotencyKey), idempotencyKey } as IDataObject;
+				}
+				case 'listEventLogs': {
+					const abiJson = getAbiParameter(ctx, i);
+					const logs = await listAll(ctx, client, i, params => client.getContractEventLogs({
+						...params,
+						contractAddress: ctx.getNodeParameter('contractAddress', i) as string,
+						blockchain: ctx.getNodeParameter('contractBlockchain', i) as string,
+					}));
+					if (!abiJson) return logs;
+					return logs.map(log => ({
+						...log,
+						decoded: decodeEventLog(abiJson, { topics: (log.topics || []) as string[], data: (log.data || '0x') as string }),
+					}) as IDataObject);
+				}
+			}
+			break;
+		case 'sandbox':
+			switch (operation) {
+				case 'mockIncomingWire': return await client.mockIncomingWire({
+					trackingRef: ctx.getNodeParameter('trackingRef', i) as string,
+					amount: { amount: ctx.getNodeParameter('amount', i) as string, currency: ctx.getNodeParameter('currency', i) as string },
+					beneficiaryBank: { accountNumber: ctx.getNodeParameter('beneficiaryAccountNumber', i) as string },
+				}) as IDataObject;
+				case 'mockPushToCard': {
+					const status = ctx.getNodeParameter('mockOutcome', i) as 'complete' | 'failed';
+					const errorCode = status === 'failed' ? ctx.getNodeParameter('mockErrorCode', i, '') as string : '';
+					return await client.mockPushToCardOutcome({
+						payoutId: ctx.getNodeParameter('payoutId', i, '', { extractValue: true }) as string,
+						status,
+						...(errorCode ? { errorCode } : {}),
+					}) as IDataObject;
+				}
+				case 'mockBlockchainDeposit': return await client.mockBlockchainDeposit({
+					address: ctx.getNodeParameter('address', i) as string,
+					chain: ctx.getNodeParameter('chain', i) as string,
+					amount: { amount: ctx.getNodeParameter('amount', i) as string, currency: ctx.getNodeParameter('currency', i) as string },
+				}) as IDataObject;
+			}
+			break;
+		case 'customApi':
+			if (operation === 'customApiCall') {
+				return await executeCustomApiCall(ctx, client, i);
+			}
+			break;
+		case 'cards':
+			switch (operation) {
+				case 'createCard': {
+					const encrypted = await client.encryptCardDetails({
+						number: ctx.getNodeParameter('cardNumber', i) as string,
+						cvv: ctx.getNodeParameter('cvv', i) as string,
+					});
+					const idempotencyKey = getIdempotencyKey(ctx, client, i);
+					return { ...await client.createCard({
+						...encrypted,
+						expMonth: ctx.getNodeParameter('expMonth', i) as number,
+						expYear: ctx.getNodeParameter('expYear', i) as number,
+						billingDetails: ctx.getNodeParameter('billingDetails', i, {}) as { name: string; line1: string; city: string; postalCode: string; country: string },
+						metadata: ctx.getNodeParameter('paymentMetadata', i, {}) as { email: string; sessionId: string; ipAddress: string },
+					}, idempotencyKey), idempotencyKey } as IDataObject;
+				}
+				case 'getCard': return await client.getCard(ctx.getNodeParameter('cardId', i) as string) as IDataObject;
+				case 'listCards': return await listAll(ctx, client, i, params => client.getCards(params));
+				case 'updateCard': {
+					const encrypted = await client.encryptCardDetails({ cvv: ctx.getNodeParameter('cvv', i) as string });
+					return await client.updateCard(ctx.getNodeParameter('cardId', i) as string, {
+						...encrypted,
+						expMonth: ctx.getNodeParameter('expMonth', i) as number,
+						expYear: ctx.getNodeParameter('expYear', i) as number,
+					}) as IDataObject;
+				}
 			}
 			break;
 		case 'payouts':
 			switch (operation) {
-				case 'listPayouts': return { payouts: await client.getPayouts() } as IDataObject;
-				case 'getPayout': return await client.getPayout(ctx.getNodeParameter('payoutId', i) as string) as IDataObject;
-				case 'listRecipients': return { recipients: await client.getRecipients() } as IDataObject;
+				case 'listPayouts': return await listAll(ctx, client, i, params => client.getPayouts(params));
+				case 'getPayout': {
+					const payout = await client.getPayout(ctx.getNodeParameter('payoutId', i, '', { extractValue: true }) as string);
+					return await waitForFinalStatus(ctx, i, 'Payout', payout, id => client.getPayout(id), PAYOUT_TERMINAL_STATUSES) as IDataObject;
+				}
+				case 'createPayout': {
+					const destinationType = ctx.getNodeParameter('payoutDestinationType', i) as string;
+					const currency = ctx.getNodeParameter('currency', i) as string;
+					const beneficiaryEmail = destinationType === 'address_book' ? '' : ctx.getNodeParameter('beneficiaryEmail', i, '') as string;
+					const amount = ctx.getNodeParameter('amount', i) as string;
+					const { originator, beneficiary } = getTravelRuleIdentities(ctx, i, amount);
+					const idempotencyKey = getIdempotencyKey(ctx, client, i);
+					const payout = await client.createPayout({
+						// Originator identities ride on the source, which defaults to the merchant wallet
+						...(originator ? { source: { type: 'wallet', id: await getMasterWalletId(ctx, client, i), identities: [originator] } } : {}),
+						destination: { type: destinationType, id: ctx.getNodeParameter('destinationId', i, '', { extractValue: true }) as string, ...(beneficiary ? { identities: [beneficiary] } : {}) },
+						amount: { amount, currency },
+						...(destinationType === 'address_book' ? { toAmount: { currency } } : {}),
+						...(beneficiaryEmail ? { metadata: { beneficiaryEmail } } : {}),
+					}, idempotencyKey);
+					return { ...await waitForFinalStatus(ctx, i, 'Payout', payout, id => client.getPayout(id), PAYOUT_TERMINAL_STATUSES), idempotencyKey } as IDataObject;
+				}
+				case 'createRecipient': {
+					const { addressTag, nickname, email } = ctx.getNodeParameter('recipientOptions', i, {}) as IDataObject;
+					const idempotencyKey = getIdempotencyKey(ctx, client, i);
+					return { ...await client.createRecipient({
+						chain: ctx.getNodeParameter('chain', i) as string,
+						address: ctx.getNodeParameter('address', i) as string,
+						...(addressTag ? { addressTag: addressTag as string } : {}),
+						metadata: { nickname: nickname as string | undefined, email: email as string | undefined },
+					}, idempotencyKey), idempotencyKey } as IDataObject;
+				}
+				case 'getRecipient': return await client.getRecipient(ctx.getNodeParameter('recipientId', i, '', { extractValue: true }) as string) as IDataObject;
+				case 'deleteRecipient': await client.deleteRecipient(ctx.getNodeParameter('recipientId', i, '', { extractValue: true }) as string); return { success: true };
+				case 'listRecipients': return await listAll(ctx, client, i, params => client.getRecipients(params));
 			}
 			break;
 		case 'core':
@@ -396,9 +1852,97 @@ async function executeCircleApi(ctx: IExecuteFunctions, client: CircleApiClient,
 			break;
 		case 'webhooks':
 			switch (operation) {
-				case 'createSubscription': return await client.createSubscription({ endpoint: ctx.getNodeParameter('webhookEndpoint', i) as string }) as IDataObject;
+				case 'createSubscription': {
+					const idempotencyKey = getIdempotencyKey(ctx, client, i);
+					return { ...await client.createSubscription({ endpoint: ctx.getNodeParameter('webhookEndpoint', i) as string }, idempotencyKey), idempotencyKey } as IDataObject;
+				}
 				case 'listSubscriptions': return { subscriptions: await client.getSubscriptions() } as IDataObject;
-				case 'deleteSubscription': await client.deleteSubscription(ctx.getNodeParameter('subscriptionId', i) as string); return { success: true };
+				case 'deleteSubscription': await client.deleteSubscription(ctx.getNodeParameter('subscriptionId', i, '', { extractValue: true }) as string); return { success: true };
+			}
+			break;
+		case 'programmableWallets':
+			switch (operation) {
+				case 'createWalletSet': {
+					const idempotencyKey = getIdempotencyKey(ctx, client, i);
+					return { ...await client.createWalletSet({ name: ctx.getNodeParameter('walletSetName', i) as string }, idempotencyKey), idempotencyKey } as IDataObject;
+				}
+				case 'listWalletSets': return await listAll(ctx, client, i, params => client.getWalletSets(params));
+				case 'createWallets': {
+					const blockchains = ctx.getNodeParameter('blockchains', i) as string[];
+					if (blockchains.length === 0) {
+						throw new NodeOperationError(ctx.getNode(), 'Select at least one blockchain', { itemIndex: i });
+					}
+					const idempotencyKey = getIdempotencyKey(ctx, client, i);
+					const wallets = await client.createDeveloperWallets({
+						walletSetId: ctx.getNodeParameter('walletSetId', i) as string,
+						blockchains,
+						count: ctx.getNodeParameter('walletCount', i) as number,
+						accountType: ctx.getNodeParameter('accountType', i) as string,
+					}, idempotencyKey);
+					return wallets.map(wallet => ({ ...wallet, idempotencyKey })) as IDataObject[];
+				}
+				case 'getWalletBalances': {
+					const walletId = ctx.getNodeParameter('walletId', i, '', { extractValue: true }) as string;
+					return { walletId, tokenBalances: await client.getWalletTokenBalances(walletId) } as IDataObject;
+				}
+				case 'createTransaction': {
+					const idempotencyKey = getIdempotencyKey(ctx, client, i);
+					return { ...await client.createTransferTransaction({
+						walletId: ctx.getNodeParameter('walletId', i, '', { extractValue: true }) as string,
+						tokenId: ctx.getNodeParameter('tokenId', i) as string,
+						destinationAddress: ctx.getNodeParameter('destinationAddress', i) as string,
+						amounts: [ctx.getNodeParameter('amount', i) as string],
+						feeLevel: ctx.getNodeParameter('feeLevel', i) as string,
+					}, idempotencyKey), idempotencyKey } as IDataObject;
+				}
+				case 'getTransaction': return await client.getTransaction(ctx.getNodeParameter('transactionId', i) as string) as IDataObject;
+				case 'listTransactions': return await listAll(ctx, client, i, params => client.getTransactions(params));
+			}
+			break;
+		case 'userWallets':
+			switch (operation) {
+				case 'createUser': {
+					const userId = ctx.getNodeParameter('userId', i) as string;
+					return { userId, ...await client.createUser(userId) } as IDataObject;
+				}
+				case 'createUserToken': {
+					const userId = ctx.getNodeParameter('userId', i) as string;
+					const { userToken, encryptionKey } = await client.createUserToken(userId);
+					const expiresAt = getJwtExpiry(userToken);
+					return { userId, userToken, encryptionKey, expiresAt: expiresAt ? expiresAt.toISOString() : null, isExpired: isJwtExpired(userToken) };
+				}
+				case 'initializeUser': {
+					const userToken = getUserToken(ctx, i);
+					const idempotencyKey = getIdempotencyKey(ctx, client, i);
+					return { ...await client.initializeUser(userToken, {
+						blockchains: ctx.getNodeParameter('blockchains', i) as string[],
+						accountType: ctx.getNodeParameter('accountType', i) as string,
+					}, idempotencyKey), idempotencyKey };
+				}
+				case 'createWalletChallenge': {
+					const userToken = getUserToken(ctx, i);
+					const blockchains = ctx.getNodeParameter('blockchains', i) as string[];
+					if (blockchains.length === 0) {
+						throw new NodeOperationError(ctx.getNode(), 'Select at least one blockchain', { itemIndex: i });
+					}
+					const idempotencyKey = getIdempotencyKey(ctx, client, i);
+					return { ...await client.createUserWalletChallenge(userToken, {
+						blockchains,
+						accountType: ctx.getNodeParameter('accountType', i) as string,
+					}, idempotencyKey), idempotencyKey };
+				}
+				case 'createTransactionChallenge': {
+					const userToken = getUserToken(ctx, i);
+					const idempotencyKey = getIdempotencyKey(ctx, client, i);
+					return { ...await client.createUserTransactionChallenge(userToken, {
+						walletId: ctx.getNodeParameter('walletId', i, '', { extractValue: true }) as string,
+						tokenId: ctx.getNodeParameter('tokenId', i) as string,
+						destinationAddress: ctx.getNodeParameter('destinationAddress', i) as string,
+						amounts: [ctx.getNodeParameter('amount', i) as string],
+						feeLevel: ctx.getNodeParameter('feeLevel', i) as string,
+					}, idempotencyKey), idempotencyKey };
+				}
+				case 'getChallenge': return await client.getUserChallenge(getUserToken(ctx, i), ctx.getNodeParameter('challengeId', i) as string) as IDataObject;
 			}
 			break;
 	}
@@ -453,6 +1997,15 @@ async function executeUtility(ctx: IExecuteFunctions, resource: string, operatio
 		case 'getChainInfo': { const network = ctx.getNodeParameter('network', i) as string; return { network, ...NETWORKS[network] } as IDataObject; }
 		case 'getSupportedChains': return { chains: Object.entries(USDC_CONTRACTS).map(([network, address]) => ({ network, usdcAddress: address, eurcAddress: EURC_CONTRACTS[network] || null, cctpSupported: CCTP_DOMAIN_IDS[network] !== undefined })) };
 		case 'getLatest': return { note: 'Reserve attestations available at https://www.centre.io/usdc-transparency', lastUpdated: new Date().toISOString() };
+		case 'generateEntitySecret': {
+			const client = await createPlatformClient(ctx);
+			const entitySecret = generateEntitySecret();
+			return {
+				entitySecret,
+				entitySecretCiphertext: await client.getEntitySecretCiphertext(entitySecret),
+				note: 'Register the ciphertext in the Circle Developer Console, then store the entity secret in the Circle Platform credential. Circle cannot recover a lost entity secret.',
+			};
+		}
 	}
 	throw new Error(`Unknown utility operation: ${operation}`);
 }
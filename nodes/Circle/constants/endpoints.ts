@@ -154,6 +154,29 @@ export const ERROR_CODES = {
 	IDEMPOTENCY_KEY_REUSED: 5001,
 };
 
+export type CircleErrorCodeName = keyof typeof ERROR_CODES;
+
+/**
+ * Human-readable explanations for Circle error codes
+ */
+export const ERROR_DESCRIPTIONS: Record<CircleErrorCodeName, string> = {
+	INVALID_REQUEST: 'The request was rejected because one or more fields are missing or invalid.',
+	UNAUTHORIZED: 'The API key is missing, invalid, or belongs to a different environment.',
+	FORBIDDEN: 'The API key is not allowed to perform this operation.',
+	NOT_FOUND: 'The requested resource does not exist or is not visible to this API key.',
+	RATE_LIMITED: 'Too many requests were sent to Circle. Slow down or retry later.',
+	CARD_DECLINED: 'The card issuer declined the payment.',
+	INSUFFICIENT_FUNDS: 'The payment source does not have enough funds for this amount.',
+	CARD_NOT_SUPPORTED: 'The card type or issuing country is not supported by Circle.',
+	PAYMENT_FAILED: 'The payment could not be processed.',
+	INVALID_ADDRESS: 'The blockchain address is not valid for the selected chain.',
+	BLACKLISTED_ADDRESS: 'The destination address is blacklisted and cannot receive funds.',
+	INSUFFICIENT_BALANCE: 'The wallet balance is too low for this transfer.',
+	COMPLIANCE_CHECK_FAILED: 'The request was blocked by Circle compliance checks.',
+	SANCTIONS_MATCH: 'A party to this request matched a sanctions list.',
+	IDEMPOTENCY_KEY_REUSED: 'The idempotency key was already used for a different request.',
+};
+
 /**
  * Status values for various resources
  */
@@ -214,6 +237,26 @@ export const CIRCLE_SUPPORTED_CHAINS = [
 	'HBAR',
 ];
 
+/**
+ * Blockchains supported by Circle Programmable Wallets
+ */
+export const PROGRAMMABLE_WALLET_BLOCKCHAINS = [
+	'ETH',
+	'ETH-SEPOLIA',
+	'MATIC',
+	'MATIC-AMOY',
+	'ARB',
+	'ARB-SEPOLIA',
+	'BASE',
+	'BASE-SEPOLIA',
+	'OP',
+	'OP-SEPOLIA',
+	'AVAX',
+	'AVAX-FUJI',
+	'SOL',
+	'SOL-DEVNET',
+];
+
 /**
  * Rate limits (requests per minute)
  */
@@ -225,6 +268,23 @@ export const RATE_LIMITS = {
 	compliance: 30,
 };
 
+/**
+ * Retry defaults for transient Circle API failures
+ */
+export const RETRY_DEFAULTS = {
+	maxRetries: 3,
+	baseDelay: 500,
+	maxDelay: 30000,
+};
+
+/**
+ * Pagination limits for Circle list endpoints
+ */
+export const PAGINATION = {
+	maxPageSize: 50,
+	defaultLimit: 50,
+};
+
 /**
  * Build full API URL
  */
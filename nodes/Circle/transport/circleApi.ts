@@ -12,9 +12,38 @@
  * Accounts, Payments, Payouts, and Core APIs.
  */
 
-import axios, { AxiosInstance, AxiosError, AxiosRequestConfig } from 'axios';
-import { CIRCLE_API_BASE_URLS, RATE_LIMITS } from '../constants/endpoints';
-import { generateIdempotencyKey, createAuthHeader } from '../utils/signatureUtils';
+import axios, { AxiosInstance, AxiosError, AxiosRequestConfig, InternalAxiosRequestConfig } from 'axios';
+import { CIRCLE_API_BASE_URLS, PAGINATION, RETRY_DEFAULTS } from '../constants/endpoints';
+import {
+	generateIdempotencyKey,
+	deriveIdempotencyKey,
+	createAuthHeader,
+	generateEntitySecretCiphertext,
+	sha256Hash,
+} from '../utils/signatureUtils';
+import {
+	computeBackoffDelay,
+	isRetryableNetworkError,
+	isRetryableStatus,
+	parseRetryAfter,
+	sleep,
+} from '../utils/retryUtils';
+import { CardSensitiveData, encryptCardData } from '../utils/pgpUtils';
+import type { TravelRuleIdentity } from '../utils/travelRuleUtils';
+import { createCircleError } from './errors';
+import {
+	Balances,
+	Payment,
+	Payout,
+	Recipient,
+	Settlement,
+	Subscription,
+	Transfer,
+	Wallet,
+	validateModel,
+	validateModels,
+} from './models';
+import { getRateLimiter } from './rateLimiter';
 
 export interface CircleApiError {
 	code: number;
@@ -30,6 +59,29 @@ export interface PaginationParams {
 	pageAfter?: string;
 	pageBefore?: string;
 	pageSize?: number;
+	from?: string;
+	to?: string;
+}
+
+export interface PaginateOptions {
+	returnAll: boolean;
+	limit?: number;
+	pageSize?: number;
+	/** Record field holding the pageAfter cursor; defaults to `id` */
+	cursorField?: string;
+}
+
+export interface RequestOptions {
+	useIdempotency?: boolean;
+	idempotencyKey?: string;
+	headers?: Record<string, string>;
+}
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface CustomRequestOptions extends RequestOptions {
+	query?: object;
+	body?: unknown;
 }
 
 export interface CircleApiConfig {
@@ -38,21 +90,28 @@ export interface CircleApiConfig {
 	entitySecret?: string;
 	idempotencyKeyPrefix?: string;
 	timeout?: number;
+	maxRetries?: number;
+	maxRetryDelay?: number;
 }
 
-interface RateLimiterState {
-	tokens: number;
-	lastRefill: number;
+interface RetryableRequestConfig extends InternalAxiosRequestConfig {
+	retryCount?: number;
+	/** Only retry when the body carries an idempotency key (custom non-GET calls) */
+	requireIdempotencyKey?: boolean;
 }
 
+/**
+ * Entity public keys by API key hash. The key only changes when the entity
+ * is re-registered, so it is fetched once per process.
+ */
+const entityPublicKeys = new Map<string, string>();
+
 export class CircleApiClient {
 	private client: AxiosInstance;
 	private config: CircleApiConfig;
-	private rateLimiter: RateLimiterState;
 
 	constructor(config: CircleApiConfig) {
 		this.config = config;
-		this.rateLimiter = { tokens: RATE_LIMITS.default, lastRefill: Date.now() };
 
 		const baseURL = config.environment === 'production'
 			? CIRCLE_API_BASE_URLS.production
@@ -65,67 +124,216 @@ export class CircleApiClient {
 				'Content-Type': 'application/json',
 				'Authorization': createAuthHeader(config.apiKey),
 			},
+			// Repeat array params (status=a&status=b) the way Circle list filters expect
+			paramsSerializer: { indexes: null },
 		});
 
 		this.client.interceptors.response.use(
-			response => response,
-			(error: AxiosError<CircleApiError>) => {
-				if (error.response?.data) {
-					const apiError = error.response.data;
-					throw new Error(`Circle API Error ${apiError.code}: ${apiError.message}`);
+			response => {
+				this.updateRateLimit(response.config.url, response.headers);
+				return response;
+			},
+			async (error: AxiosError<CircleApiError>) => {
+				this.updateRateLimit(error.config?.url, error.response?.headers);
+
+				const requestConfig = error.config as RetryableRequestConfig | undefined;
+				if (requestConfig && this.shouldRetry(error, requestConfig)) {
+					requestConfig.retryCount = (requestConfig.retryCount ?? 0) + 1;
+					await sleep(this.getRetryDelay(error, requestConfig.retryCount));
+					await this.refreshEntitySecretCiphertext(requestConfig);
+					// Retries draw from the shared bucket like any other request
+					await this.checkRateLimit(requestConfig.url ?? '');
+					return this.client.request(requestConfig);
+				}
+
+				if (error.response) {
+					throw createCircleError(error.response.status, error.response.data, error.message);
 				}
 				throw error;
 			},
 		);
 	}
 
-	private async checkRateLimit(): Promise<void> {
-		const now = Date.now();
-		const elapsed = now - this.rateLimiter.lastRefill;
-		const refillAmount = Math.floor(elapsed / 1000) * (RATE_LIMITS.default / 60);
-		this.rateLimiter.tokens = Math.min(RATE_LIMITS.default, this.rateLimiter.tokens + refillAmount);
-		this.rateLimiter.lastRefill = now;
+	/**
+	 * Decide whether a failed request may be sent again.
+	 *
+	 * POSTs, and custom calls other than GET, are only retried when their
+	 * body carries an `idempotencyKey`: the retry reuses the same request
+	 * config, and therefore the same key, so Circle deduplicates it instead
+	 * of moving money twice.
+	 */
+	private shouldRetry(error: AxiosError, requestConfig: RetryableRequestConfig): boolean {
+		const maxRetries = this.config.maxRetries ?? RETRY_DEFAULTS.maxRetries;
+		if ((requestConfig.retryCount ?? 0) >= maxRetries) {
+			return false;
+		}
+
+		const requireIdempotencyKey = requestConfig.requireIdempotencyKey || requestConfig.method?.toLowerCase() === 'post';
+		if (requireIdempotencyKey && !hasBodyIdempotencyKey(requestConfig.data)) {
+			return false;
+		}
+
+		if (error.response) {
+			return isRetryableStatus(error.response.status);
+		}
+		return isRetryableNetworkError(error.code);
+	}
 
-		if (this.rateLimiter.tokens < 1) {
-			const waitTime = Math.ceil((1 - this.rateLimiter.tokens) * (60000 / RATE_LIMITS.default));
-			await new Promise(resolve => setTimeout(resolve, waitTime));
-			this.rateLimiter.tokens = 1;
+	/**
+	 * Circle rejects an entity secret ciphertext it has already seen, so a
+	 * retried Programmable Wallets write is sent with a freshly encrypted one.
+	 */
+	private async refreshEntitySecretCiphertext(requestConfig: RetryableRequestConfig): Promise<void> {
+		if (typeof requestConfig.data !== 'string' || !requestConfig.data.includes('"entitySecretCiphertext"')) {
+			return;
+		}
+		const body = JSON.parse(requestConfig.data) as Record<string, unknown>;
+		body.entitySecretCiphertext = await this.getEntitySecretCiphertext();
+		requestConfig.data = JSON.stringify(body);
+	}
+
+	private getRetryDelay(error: AxiosError, attempt: number): number {
+		const maxDelay = this.config.maxRetryDelay ?? RETRY_DEFAULTS.maxDelay;
+		if (error.response?.status === 429) {
+			const retryAfter = parseRetryAfter(error.response.headers?.['retry-after']);
+			if (retryAfter !== undefined) {
+				return Math.min(retryAfter, maxDelay);
+			}
 		}
-		this.rateLimiter.tokens -= 1;
+		return computeBackoffDelay(attempt, RETRY_DEFAULTS.baseDelay, maxDelay);
 	}
 
-	private getIdempotencyKey(): string {
-		return generateIdempotencyKey(this.config.idempotencyKeyPrefix);
+	private async checkRateLimit(endpoint: string): Promise<void> {
+		await getRateLimiter(this.config.apiKey, endpoint).acquire();
+	}
+
+	private updateRateLimit(endpoint: string | undefined, headers: unknown): void {
+		if (endpoint && headers) {
+			getRateLimiter(this.config.apiKey, endpoint).updateFromHeaders(headers as Record<string, unknown>);
+		}
 	}
 
-	async get<T>(endpoint: string, params?: Record<string, unknown>): Promise<T> {
-		await this.checkRateLimit();
-		const response = await this.client.get<CircleApiResponse<T>>(endpoint, { params });
+	/**
+	 * Circle only accepts bare UUIDs as idempotency keys, so the credential
+	 * prefix is not prepended here; it only namespaces derived keys.
+	 */
+	createIdempotencyKey(): string {
+		return generateIdempotencyKey();
+	}
+
+	deriveIdempotencyKey(operation: string, values: unknown[]): string {
+		return deriveIdempotencyKey(operation, values, this.config.idempotencyKeyPrefix);
+	}
+
+	async get<T>(endpoint: string, params?: object, options: Pick<RequestOptions, 'headers'> = {}): Promise<T> {
+		await this.checkRateLimit(endpoint);
+		const response = await this.client.get<CircleApiResponse<T>>(endpoint, { params, headers: options.headers });
 		return response.data.data;
 	}
 
-	async post<T>(endpoint: string, data?: Record<string, unknown>, useIdempotency: boolean = true): Promise<T> {
-		await this.checkRateLimit();
-		const headers: Record<string, string> = {};
-		if (useIdempotency) {
-			headers['X-Idempotency-Key'] = this.getIdempotencyKey();
+	/**
+	 * POST to a Circle endpoint
+	 *
+	 * Unless `useIdempotency` is false, the idempotency key goes in the JSON
+	 * body, where Circle's create endpoints deduplicate on it, and in the
+	 * X-Idempotency-Key header, which marks the request as safe to retry.
+	 */
+	async post<T>(endpoint: string, data?: Record<string, unknown>, options: RequestOptions = {}): Promise<T> {
+		await this.checkRateLimit(endpoint);
+		const headers: Record<string, string> = { ...options.headers };
+		let body = data;
+		if (options.useIdempotency !== false) {
+			const key = options.idempotencyKey || this.createIdempotencyKey();
+			headers['X-Idempotency-Key'] = key;
+			body = { ...data, idempotencyKey: key };
 		}
-		const response = await this.client.post<CircleApiResponse<T>>(endpoint, data, { headers });
+		const response = await this.client.post<CircleApiResponse<T>>(endpoint, body, { headers });
 		return response.data.data;
 	}
 
 	async put<T>(endpoint: string, data?: Record<string, unknown>): Promise<T> {
-		await this.checkRateLimit();
+		await this.checkRateLimit(endpoint);
 		const response = await this.client.put<CircleApiResponse<T>>(endpoint, data);
 		return response.data.data;
 	}
 
 	async delete<T>(endpoint: string): Promise<T> {
-		await this.checkRateLimit();
+		await this.checkRateLimit(endpoint);
 		const response = await this.client.delete<CircleApiResponse<T>>(endpoint);
 		return response.data.data;
 	}
 
+	/**
+	 * Send a request to any Circle API path
+	 *
+	 * Goes through the same auth, rate limiting, retries and error mapping as
+	 * the typed methods. Only relative paths are accepted so the API key is
+	 * never sent to another host. An idempotency key is sent only when asked
+	 * for, merged into a JSON object body like post() does; calls other than
+	 * GET are retried only when it could be. Returns the `data` envelope's
+	 * content, or the raw body for endpoints without one.
+	 */
+	async request<T = unknown>(method: HttpMethod, endpoint: string, options: CustomRequestOptions = {}): Promise<T> {
+		if (!endpoint.startsWith('/') || endpoint.startsWith('//')) {
+			throw new Error(`Path must be relative to the Circle API base URL, e.g. /v1/configuration (got "${endpoint}")`);
+		}
+		await this.checkRateLimit(endpoint);
+		const headers: Record<string, string> = { ...options.headers };
+		let body = options.body;
+		if (options.useIdempotency) {
+			const key = options.idempotencyKey || this.createIdempotencyKey();
+			headers['X-Idempotency-Key'] = key;
+			if (body === undefined || isPlainObject(body)) {
+				body = { ...body as object, idempotencyKey: key };
+			}
+		}
+		const config: RetryableRequestConfig = {
+			method, url: endpoint, params: options.query, data: body, headers, requireIdempotencyKey: method !== 'GET',
+		} as RetryableRequestConfig;
+		const response = await this.client.request(config);
+		const responseBody = response.data as unknown;
+		return (isPlainObject(responseBody) && 'data' in responseBody ? (responseBody as unknown as CircleApiResponse<T>).data : responseBody) as T;
+	}
+
+	/**
+	 * Walk a Circle list endpoint page by page.
+	 *
+	 * Circle returns collections newest first, so each following page is
+	 * requested with `pageAfter` set to the ID of the last record received,
+	 * read from `cursorField` (Circle Accounts wallets use `walletId`). Stops
+	 * once a page comes back short, or once `limit` records are collected
+	 * when `returnAll` is off. `pageSize` caps each request below Circle's
+	 * maximum of 50.
+	 */
+	async paginate<T extends Record<string, unknown>>(
+		fetchPage: (params: PaginationParams) => Promise<T[]>,
+		options: PaginateOptions,
+	): Promise<T[]> {
+		const limit = options.returnAll ? Infinity : options.limit ?? PAGINATION.defaultLimit;
+		const maxPageSize = Math.min(options.pageSize || PAGINATION.maxPageSize, PAGINATION.maxPageSize);
+		const cursorField = options.cursorField ?? 'id';
+		const results: T[] = [];
+		let pageAfter: string | undefined;
+
+		while (results.length < limit) {
+			const pageSize = Math.min(maxPageSize, limit - results.length);
+			const page = await fetchPage(pageAfter ? { pageSize, pageAfter } : { pageSize });
+			if (!Array.isArray(page) || page.length === 0) {
+				break;
+			}
+
+			results.push(...page);
+
+			const lastId = page[page.length - 1][cursorField];
+			if (page.length < pageSize || typeof lastId !== 'string') {
+				break;
+			}
+			pageAfter = lastId;
+		}
+
+		return results.slice(0, limit);
+	}
+
 	async getConfiguration(): Promise<Record<string, unknown>> {
 		return this.get('/v1/configuration');
 	}
@@ -140,38 +348,38 @@ export class CircleApiClient {
 	}
 
 	// Wallets
-	async createWallet(data: { idempotencyKey?: string; description?: string }): Promise<Record<string, unknown>> {
-		return this.post('/v1/wallets', data);
+	async createWallet(data: { description?: string }, idempotencyKey?: string): Promise<Wallet> {
+		return validateModel('Wallet', await this.post('/v1/wallets', data, { idempotencyKey }));
 	}
 
-	async getWallet(walletId: string): Promise<Record<string, unknown>> {
-		return this.get(`/v1/wallets/${walletId}`);
+	async getWallet(walletId: string): Promise<Wallet> {
+		return validateModel('Wallet', await this.get(`/v1/wallets/${walletId}`));
 	}
 
-	async getWallets(params?: PaginationParams): Promise<Record<string, unknown>[]> {
-		return this.get('/v1/wallets', params);
+	async getWallets(params?: PaginationParams): Promise<Wallet[]> {
+		return validateModels('Wallet', await this.get('/v1/wallets', params));
 	}
 
 	// Transfers
 	async createTransfer(data: {
-		source: { type: string; id?: string };
-		destination: { type: string; address?: string; chain?: string; id?: string };
+		source: { type: string; id?: string; identities?: TravelRuleIdentity[] };
+		destination: { type: string; address?: string; chain?: string; id?: string; identities?: TravelRuleIdentity[] };
 		amount: { amount: string; currency: string };
-	}): Promise<Record<string, unknown>> {
-		return this.post('/v1/transfers', data);
+	}, idempotencyKey?: string): Promise<Transfer> {
+		return validateModel('Transfer', await this.post('/v1/transfers', data, { idempotencyKey }));
 	}
 
-	async getTransfer(transferId: string): Promise<Record<string, unknown>> {
-		return this.get(`/v1/transfers/${transferId}`);
+	async getTransfer(transferId: string): Promise<Transfer> {
+		return validateModel('Transfer', await this.get(`/v1/transfers/${transferId}`));
 	}
 
-	async getTransfers(params?: PaginationParams & { status?: string }): Promise<Record<string, unknown>[]> {
-		return this.get('/v1/transfers', params);
+	async getTransfers(params?: PaginationParams & { status?: string | string[]; walletId?: string; sourceWalletId?: string; destinationWalletId?: string }): Promise<Transfer[]> {
+		return validateModels('Transfer', await this.get('/v1/transfers', params));
 	}
 
 	// Addresses
-	async createAddress(walletId: string, data: { chain: string; currency: string }): Promise<Record<string, unknown>> {
-		return this.post(`/v1/wallets/${walletId}/addresses`, data);
+	async createAddress(walletId: string, data: { chain: string; currency: string }, idempotencyKey?: string): Promise<Record<string, unknown>> {
+		return this.post(`/v1/wallets/${walletId}/addresses`, data, { idempotencyKey });
 	}
 
 	async getAddresses(walletId: string, params?: PaginationParams): Promise<Record<string, unknown>[]> {
@@ -183,83 +391,125 @@ export class CircleApiClient {
 		source: { id: string; type: string };
 		amount: { amount: string; currency: string };
 		verification?: string;
-		metadata?: { email?: string; phoneNumber?: string };
-	}): Promise<Record<string, unknown>> {
-		return this.post('/v1/payments', data);
+		keyId?: string;
+		encryptedData?: string;
+		verificationSuccessUrl?: string;
+		verificationFailureUrl?: string;
+		autoCapture?: boolean;
+		description?: string;
+		metadata?: { email?: string; phoneNumber?: string; sessionId?: string; ipAddress?: string };
+	}, idempotencyKey?: string): Promise<Payment> {
+		return validateModel('Payment', await this.post('/v1/payments', data, { idempotencyKey }));
+	}
+
+	async getPayment(paymentId: string): Promise<Payment> {
+		return validateModel('Payment', await this.get(`/v1/payments/${paymentId}`));
 	}
 
-	async getPayment(paymentId: string): Promise<Record<string, unknown>> {
-		return this.get(`/v1/payments/${paymentId}`);
+	async getPayments(params?: PaginationParams & { status?: string | string[]; type?: string; paymentIntentId?: string; source?: string }): Promise<Payment[]> {
+		return validateModels('Payment', await this.get('/v1/payments', params));
 	}
 
-	async getPayments(params?: PaginationParams & { status?: string }): Promise<Record<string, unknown>[]> {
-		return this.get('/v1/payments', params);
+	async cancelPayment(paymentId: string, data: { reason?: string }, idempotencyKey?: string): Promise<Payment> {
+		return validateModel('Payment', await this.post(`/v1/payments/${paymentId}/cancel`, data, { idempotencyKey }));
+	}
+
+	async refundPayment(paymentId: string, data: {
+		amount: { amount: string; currency: string };
+		reason?: string;
+	}, idempotencyKey?: string): Promise<Payment> {
+		return validateModel('Payment', await this.post(`/v1/payments/${paymentId}/refund`, data, { idempotencyKey }));
+	}
+
+	// Disputes
+	async getChargebacks(params?: PaginationParams & { paymentId?: string }): Promise<Record<string, unknown>[]> {
+		return this.get('/v1/chargebacks', params);
+	}
+
+	async getReversals(params?: PaginationParams & { status?: string | string[] }): Promise<Record<string, unknown>[]> {
+		return this.get('/v1/reversals', params);
 	}
 
 	// Payment Intents
 	async createPaymentIntent(data: {
-		amount: { amount: string; currency: string };
+		amount?: { amount: string; currency: string };
+		currency?: string;
 		settlementCurrency: string;
 		paymentMethods: Array<{ type: string; chain?: string }>;
-	}): Promise<Record<string, unknown>> {
-		return this.post('/v1/paymentIntents', data);
+		type?: 'transient' | 'continuous';
+	}, idempotencyKey?: string): Promise<Record<string, unknown>> {
+		return this.post('/v1/paymentIntents', data, { idempotencyKey });
 	}
 
 	async getPaymentIntent(paymentIntentId: string): Promise<Record<string, unknown>> {
 		return this.get(`/v1/paymentIntents/${paymentIntentId}`);
 	}
 
+	async getPaymentIntents(params?: PaginationParams & { status?: string | string[] }): Promise<Record<string, unknown>[]> {
+		return this.get('/v1/paymentIntents', params);
+	}
+
+	async expirePaymentIntent(paymentIntentId: string): Promise<Record<string, unknown>> {
+		return this.post(`/v1/paymentIntents/${paymentIntentId}/expire`, undefined, { useIdempotency: false });
+	}
+
 	// Payouts
 	async createPayout(data: {
-		destination: { type: string; id: string };
+		source?: { type: string; id: string; identities?: TravelRuleIdentity[] };
+		destination: { type: string; id: string; identities?: TravelRuleIdentity[] };
 		amount: { amount: string; currency: string };
+		toAmount?: { currency: string };
 		metadata?: { beneficiaryEmail?: string };
-	}): Promise<Record<string, unknown>> {
-		return this.post('/v1/payouts', data);
+	}, idempotencyKey?: string): Promise<Payout> {
+		return validateModel('Payout', await this.post('/v1/payouts', data, { idempotencyKey }));
 	}
 
-	async getPayout(payoutId: string): Promise<Record<string, unknown>> {
-		return this.get(`/v1/payouts/${payoutId}`);
+	async getPayout(payoutId: string): Promise<Payout> {
+		return validateModel('Payout', await this.get(`/v1/payouts/${payoutId}`));
 	}
 
-	async getPayouts(params?: PaginationParams & { status?: string }): Promise<Record<string, unknown>[]> {
-		return this.get('/v1/payouts', params);
+	async getPayouts(params?: PaginationParams & { status?: string | string[]; source?: string; destination?: string }): Promise<Payout[]> {
+		return validateModels('Payout', await this.get('/v1/payouts', params));
 	}
 
-	// Recipients
+	// Recipients (crypto address book)
 	async createRecipient(data: {
 		chain: string;
 		address: string;
-		currency: string;
-		description?: string;
-	}): Promise<Record<string, unknown>> {
-		return this.post('/v1/recipients', data);
+		addressTag?: string;
+		metadata?: { nickname?: string; email?: string; bns?: string };
+	}, idempotencyKey?: string): Promise<Recipient> {
+		return validateModel('Recipient', await this.post('/v1/addressBook/recipients', data, { idempotencyKey }));
+	}
+
+	async getRecipient(recipientId: string): Promise<Recipient> {
+		return validateModel('Recipient', await this.get(`/v1/addressBook/recipients/${recipientId}`));
 	}
 
-	async getRecipient(recipientId: string): Promise<Record<string, unknown>> {
-		return this.get(`/v1/recipients/${recipientId}`);
+	async getRecipients(params?: PaginationParams & { address?: string; chain?: string; status?: string | string[] }): Promise<Recipient[]> {
+		return validateModels('Recipient', await this.get('/v1/addressBook/recipients', params));
 	}
 
-	async getRecipients(params?: PaginationParams): Promise<Record<string, unknown>[]> {
-		return this.get('/v1/recipients', params);
+	async deleteRecipient(recipientId: string): Promise<void> {
+		await this.delete(`/v1/addressBook/recipients/${recipientId}`);
 	}
 
 	// Settlements
-	async getSettlement(settlementId: string): Promise<Record<string, unknown>> {
-		return this.get(`/v1/settlements/${settlementId}`);
+	async getSettlement(settlementId: string): Promise<Settlement> {
+		return validateModel('Settlement', await this.get(`/v1/settlements/${settlementId}`));
 	}
 
-	async getSettlements(params?: PaginationParams): Promise<Record<string, unknown>[]> {
-		return this.get('/v1/settlements', params);
+	async getSettlements(params?: PaginationParams): Promise<Settlement[]> {
+		return validateModels('Settlement', await this.get('/v1/settlements', params));
 	}
 
 	// Subscriptions (Webhooks)
-	async createSubscription(data: { endpoint: string }): Promise<Record<string, unknown>> {
-		return this.post('/v1/subscriptions', data);
+	async createSubscription(data: { endpoint: string }, idempotencyKey?: string): Promise<Subscription> {
+		return validateModel('Subscription', await this.post('/v1/subscriptions', data, { idempotencyKey }));
 	}
 
-	async getSubscriptions(): Promise<Record<string, unknown>[]> {
-		return this.get('/v1/subscriptions');
+	async getSubscriptions(params?: PaginationParams): Promise<Subscription[]> {
+		return validateModels('Subscription', await this.get('/v1/subscriptions', params));
 	}
 
 	async deleteSubscription(subscriptionId: string): Promise<void> {
@@ -271,29 +521,398 @@ export class CircleApiClient {
 		return this.get('/v1/businessAccount');
 	}
 
-	async getBalances(): Promise<Record<string, unknown>> {
-		return this.get('/v1/businessAccount/balances');
+	async getBalances(): Promise<Balances> {
+		return validateModel('Balances', await this.get('/v1/businessAccount/balances'));
+	}
+
+	async getBusinessDepositAddresses(): Promise<Record<string, unknown>[]> {
+		return this.get('/v1/businessAccount/wallets/addresses/deposit');
+	}
+
+	async createBusinessDepositAddress(data: { currency: string; chain: string }, idempotencyKey?: string): Promise<Record<string, unknown>> {
+		return this.post('/v1/businessAccount/wallets/addresses/deposit', data, { idempotencyKey });
+	}
+
+	async getBusinessRecipientAddresses(params?: PaginationParams): Promise<Record<string, unknown>[]> {
+		return this.get('/v1/businessAccount/wallets/addresses/recipient', params);
+	}
+
+	async createBusinessTransfer(data: {
+		destination: { type: 'verified_blockchain'; addressId: string };
+		amount: { amount: string; currency: string };
+	}, idempotencyKey?: string): Promise<Transfer> {
+		return validateModel('Transfer', await this.post('/v1/businessAccount/transfers', data, { idempotencyKey }));
+	}
+
+	async getBusinessTransfer(transferId: string): Promise<Transfer> {
+		return validateModel('Transfer', await this.get(`/v1/businessAccount/transfers/${transferId}`));
+	}
+
+	async getBusinessTransfers(params?: PaginationParams & { walletId?: string; sourceWalletId?: string; destinationWalletId?: string }): Promise<Transfer[]> {
+		return validateModels('Transfer', await this.get('/v1/businessAccount/transfers', params));
+	}
+
+	async getBusinessDeposits(params?: PaginationParams & { type?: string }): Promise<Record<string, unknown>[]> {
+		return this.get('/v1/businessAccount/deposits', params);
+	}
+
+	async getBusinessBankAccounts(): Promise<Record<string, unknown>[]> {
+		return this.get('/v1/businessAccount/banks/wires');
+	}
+
+	async getBusinessBankAccount(bankAccountId: string): Promise<Record<string, unknown>> {
+		return this.get(`/v1/businessAccount/banks/wires/${bankAccountId}`);
+	}
+
+	// FX (stablecoin exchange)
+	async createFxQuote(data: {
+		from: { currency: string; amount?: string };
+		to: { currency: string; amount?: string };
+	}, idempotencyKey?: string): Promise<Record<string, unknown>> {
+		return this.post('/v1/exchange/quotes', { ...data, type: 'tradable' }, { idempotencyKey });
+	}
+
+	async createFxTrade(quoteId: string, idempotencyKey?: string): Promise<Record<string, unknown>> {
+		return this.post('/v1/exchange/trades', { quoteId }, { idempotencyKey });
+	}
+
+	async getFxTrade(tradeId: string): Promise<Record<string, unknown>> {
+		return this.get(`/v1/exchange/trades/${tradeId}`);
+	}
+
+	async getFxTrades(params?: PaginationParams & { status?: string | string[] }): Promise<Record<string, unknown>[]> {
+		return this.get('/v1/exchange/trades', params);
+	}
+
+	async getFxSettlement(settlementId: string): Promise<Record<string, unknown>> {
+		return this.get(`/v1/exchange/trades/settlements/${settlementId}`);
+	}
+
+	async getFxSettlements(params?: PaginationParams): Promise<Record<string, unknown>[]> {
+		return this.get('/v1/exchange/trades/settlements', params);
 	}
 
 	// Cards
+	/**
+	 * Encrypt card number and/or CVV with Circle's current PGP key
+	 */
+	async encryptCardDetails(data: CardSensitiveData): Promise<{ keyId: string; encryptedData: string }> {
+		const { keyId, publicKey } = await this.getEncryptionKey();
+		return { keyId, encryptedData: await encryptCardData(data, publicKey) };
+	}
+
 	async createCard(data: {
 		keyId: string;
 		encryptedData: string;
-		billingDetails: { name: string; line1: string; city: string; postalCode: string; country: string };
-		metadata?: { email?: string };
-	}): Promise<Record<string, unknown>> {
-		return this.post('/v1/cards', data);
+		expMonth: number;
+		expYear: number;
+		billingDetails: { name: string; line1: string; line2?: string; city: string; district?: string; postalCode: string; country: string };
+		metadata: { email: string; phoneNumber?: string; sessionId: string; ipAddress: string };
+	}, idempotencyKey?: string): Promise<Record<string, unknown>> {
+		return this.post('/v1/cards', data, { idempotencyKey });
 	}
 
 	async getCard(cardId: string): Promise<Record<string, unknown>> {
 		return this.get(`/v1/cards/${cardId}`);
 	}
 
-	async updateCard(cardId: string, data: { keyId: string; encryptedData: string }): Promise<Record<string, unknown>> {
+	async getCards(params?: PaginationParams): Promise<Record<string, unknown>[]> {
+		return this.get('/v1/cards', params);
+	}
+
+	async updateCard(cardId: string, data: {
+		keyId: string;
+		encryptedData: string;
+		expMonth: number;
+		expYear: number;
+	}): Promise<Record<string, unknown>> {
 		return this.put(`/v1/cards/${cardId}`, data);
 	}
+
+	// Bank Accounts
+	async createWireBankAccount(data: {
+		accountNumber?: string;
+		routingNumber?: string;
+		iban?: string;
+		billingDetails: { name: string; line1: string; line2?: string; city: string; district?: string; postalCode: string; country: string };
+		bankAddress: { bankName?: string; line1?: string; line2?: string; city?: string; district?: string; country: string };
+	}, idempotencyKey?: string): Promise<Record<string, unknown>> {
+		return this.post('/v1/banks/wires', data, { idempotencyKey });
+	}
+
+	async getWireBankAccount(bankAccountId: string): Promise<Record<string, unknown>> {
+		return this.get(`/v1/banks/wires/${bankAccountId}`);
+	}
+
+	async getWireBankAccounts(params?: PaginationParams): Promise<Record<string, unknown>[]> {
+		return this.get('/v1/banks/wires', params);
+	}
+
+	async getWireInstructions(bankAccountId: string, currency: string = 'USD'): Promise<Record<string, unknown>> {
+		return this.get(`/v1/banks/wires/${bankAccountId}/instructions`, { currency });
+	}
+
+	// Compliance Engine
+	async screenAddress(data: { address: string; chain: string }, idempotencyKey?: string): Promise<Record<string, unknown>> {
+		return this.post('/v1/w3s/compliance/screening/addresses', data, { idempotencyKey });
+	}
+
+	async screenTransaction(data: { txHash: string; chain: string }, idempotencyKey?: string): Promise<Record<string, unknown>> {
+		return this.post('/v1/w3s/compliance/screening/transactions', data, { idempotencyKey });
+	}
+
+	// Sandbox mocks
+	private async postMock<T>(endpoint: string, data: Record<string, unknown>): Promise<T> {
+		if (this.config.environment !== 'sandbox') {
+			throw new Error('Sandbox mocks are only available with a sandbox Circle Platform credential');
+		}
+		return this.post<T>(endpoint, data, { useIdempotency: false });
+	}
+
+	async mockIncomingWire(data: {
+		trackingRef: string;
+		amount: { amount: string; currency: string };
+		beneficiaryBank: { accountNumber: string };
+	}): Promise<Record<string, unknown>> {
+		return this.postMock('/v1/mocks/payments/wire', data);
+	}
+
+	async mockPushToCardOutcome(data: {
+		payoutId: string;
+		status: 'complete' | 'failed';
+		errorCode?: string;
+	}): Promise<Record<string, unknown>> {
+		return this.postMock('/v1/mocks/payouts/card', data);
+	}
+
+	async mockBlockchainDeposit(data: {
+		address: string;
+		chain: string;
+		amount: { amount: string; currency: string };
+	}): Promise<Record<string, unknown>> {
+		return this.postMock('/v1/mocks/blockchain/deposits', data);
+	}
+
+	// Programmable Wallets (developer-controlled)
+	async getEntityPublicKey(): Promise<string> {
+		const cacheKey = sha256Hash(this.config.apiKey);
+		let publicKey = entityPublicKeys.get(cacheKey);
+		if (!publicKey) {
+			const response = await this.get<{ publicKey: string }>('/v1/w3s/config/entity/publicKey');
+			publicKey = response.publicKey;
+			entityPublicKeys.set(cacheKey, publicKey);
+		}
+		return publicKey;
+	}
+
+	/**
+	 * Encrypt an entity secret with the entity public key. Defaults to the
+	 * secret stored in the credential.
+	 */
+	async getEntitySecretCiphertext(entitySecret: string | undefined = this.config.entitySecret): Promise<string> {
+		if (!entitySecret) {
+			throw new Error('An Entity Secret is required in the Circle Platform credential for Programmable Wallets write operations');
+		}
+		return generateEntitySecretCiphertext(entitySecret, await this.getEntityPublicKey());
+	}
+
+	/**
+	 * POST to a developer-controlled wallets endpoint. These endpoints take
+	 * a fresh entity secret ciphertext with every request.
+	 */
+	private async postWithEntitySecret<T>(endpoint: string, data: Record<string, unknown>, idempotencyKey?: string): Promise<T> {
+		return this.post<T>(endpoint, {
+			...data,
+			entitySecretCiphertext: await this.getEntitySecretCiphertext(),
+		}, { idempotencyKey });
+	}
+
+	async createWalletSet(data: { name: string }, idempotencyKey?: string): Promise<Record<string, unknown>> {
+		const response = await this.postWithEntitySecret<{ walletSet: Record<string, unknown> }>('/v1/w3s/developer/walletSets', data, idempotencyKey);
+		return response.walletSet;
+	}
+
+	async getWalletSets(params?: PaginationParams): Promise<Record<string, unknown>[]> {
+		const response = await this.get<{ walletSets: Record<string, unknown>[] }>('/v1/w3s/walletSets', params);
+		return response.walletSets;
+	}
+
+	async createDeveloperWallets(data: {
+		walletSetId: string;
+		blockchains: string[];
+		count?: number;
+		accountType?: string;
+	}, idempotencyKey?: string): Promise<Record<string, unknown>[]> {
+		const response = await this.postWithEntitySecret<{ wallets: Record<string, unknown>[] }>('/v1/w3s/developer/wallets', data, idempotencyKey);
+		return response.wallets;
+	}
+
+	/**
+	 * List Programmable Wallets. With a user token, lists that end user's
+	 * wallets instead of the developer's.
+	 */
+	async getProgrammableWallets(params?: PaginationParams & { walletSetId?: string; blockchain?: string }, userToken?: string): Promise<Record<string, unknown>[]> {
+		const response = await this.get<{ wallets: Record<string, unknown>[] }>('/v1/w3s/wallets', params, {
+			headers: userToken ? { 'X-User-Token': userToken } : undefined,
+		});
+		return response.wallets;
+	}
+
+	async getWalletTokenBalances(walletId: string): Promise<Record<string, unknown>[]> {
+		const response = await this.get<{ tokenBalances: Record<string, unknown>[] }>(`/v1/w3s/wallets/${walletId}/balances`);
+		return response.tokenBalances;
+	}
+
+	async createTransferTransaction(data: {
+		walletId: string;
+		tokenId: string;
+		destinationAddress: string;
+		amounts: string[];
+		feeLevel?: string;
+	}, idempotencyKey?: string): Promise<Record<string, unknown>> {
+		return this.postWithEntitySecret('/v1/w3s/developer/transactions/transfer', data, idempotencyKey);
+	}
+
+	async getTransaction(transactionId: string): Promise<Record<string, unknown>> {
+		const response = await this.get<{ transaction: Record<string, unknown> }>(`/v1/w3s/transactions/${transactionId}`);
+		return response.transaction;
+	}
+
+	async getTransactions(params?: PaginationParams & { walletIds?: string; sourceAddress?: string; destinationAddress?: string; state?: string | string[] }): Promise<Record<string, unknown>[]> {
+		const response = await this.get<{ transactions: Record<string, unknown>[] }>('/v1/w3s/transactions', params);
+		return response.transactions;
+	}
+
+	// Smart Contract Platform
+	async deployContractTemplate(templateId: string, data: {
+		blockchain: string;
+		name: string;
+		walletId: string;
+		templateParameters: Record<string, unknown>;
+		feeLevel?: string;
+	}, idempotencyKey?: string): Promise<{ contractIds: string[]; transactionId: string }> {
+		return this.postWithEntitySecret(`/v1/w3s/templates/${templateId}/deploy`, data, idempotencyKey);
+	}
+
+	async deployContract(data: {
+		blockchain: string;
+		name: string;
+		walletId: string;
+		abiJson: string;
+		bytecode: string;
+		constructorParameters?: unknown[];
+		feeLevel?: string;
+	}, idempotencyKey?: string): Promise<{ contractId: string; transactionId: string }> {
+		return this.postWithEntitySecret('/v1/w3s/contracts/deploy', data, idempotencyKey);
+	}
+
+	async importContract(data: {
+		blockchain: string;
+		address: string;
+		name: string;
+		description?: string;
+	}, idempotencyKey?: string): Promise<Record<string, unknown>> {
+		const response = await this.post<{ contract: Record<string, unknown> }>('/v1/w3s/contracts/import', data, { idempotencyKey });
+		return response.contract;
+	}
+
+	async queryContract(data: {
+		blockchain: string;
+		address: string;
+		abiFunctionSignature: string;
+		abiParameters?: unknown[];
+		abiJson?: string;
+	}): Promise<{ outputValues?: unknown[]; outputData?: string }> {
+		return this.post('/v1/w3s/contracts/query', data, { useIdempotency: false });
+	}
+
+	async createContractExecutionTransaction(data: {
+		walletId: string;
+		contractAddress: string;
+		abiFunctionSignature: string;
+		abiParameters?: unknown[];
+		amount?: string;
+		feeLevel?: string;
+	}, idempotencyKey?: string): Promise<Record<string, unknown>> {
+		return this.postWithEntitySecret('/v1/w3s/developer/transactions/contractExecution', data, idempotencyKey);
+	}
+
+	async getContractEventLogs(params: PaginationParams & { contractAddress: string; blockchain: string }): Promise<Record<string, unknown>[]> {
+		const response = await this.get<{ eventLogs: Record<string, unknown>[] }>('/v1/w3s/contracts/events', params);
+		return response.eventLogs;
+	}
+
+	// Programmable Wallets (user-controlled)
+	async createUser(userId: string): Promise<Record<string, unknown>> {
+		return this.post('/v1/w3s/users', { userId }, { useIdempotency: false });
+	}
+
+	async createUserToken(userId: string): Promise<{ userToken: string; encryptionKey: string }> {
+		return this.post('/v1/w3s/users/token', { userId }, { useIdempotency: false });
+	}
+
+	/**
+	 * POST on behalf of an end user. User endpoints authenticate with the
+	 * X-User-Token header.
+	 */
+	private async postAsUser<T>(endpoint: string, userToken: string, data: Record<string, unknown>, idempotencyKey?: string): Promise<T> {
+		return this.post<T>(endpoint, data, {
+			idempotencyKey,
+			headers: { 'X-User-Token': userToken },
+		});
+	}
+
+	async initializeUser(userToken: string, data: {
+		blockchains?: string[];
+		accountType?: string;
+	}, idempotencyKey?: string): Promise<{ challengeId: string }> {
+		return this.postAsUser('/v1/w3s/user/initialize', userToken, data, idempotencyKey);
+	}
+
+	async createUserWalletChallenge(userToken: string, data: {
+		blockchains: string[];
+		accountType?: string;
+	}, idempotencyKey?: string): Promise<{ challengeId: string }> {
+		return this.postAsUser('/v1/w3s/user/wallets', userToken, data, idempotencyKey);
+	}
+
+	async createUserTransactionChallenge(userToken: string, data: {
+		walletId: string;
+		tokenId: string;
+		destinationAddress: string;
+		amounts: string[];
+		feeLevel?: string;
+	}, idempotencyKey?: string): Promise<{ challengeId: string }> {
+		return this.postAsUser('/v1/w3s/user/transactions/transfer', userToken, data, idempotencyKey);
+	}
+
+	async getUserChallenge(userToken: string, challengeId: string): Promise<Record<string, unknown>> {
+		const response = await this.get<{ challenge: Record<string, unknown> }>(`/v1/w3s/user/challenges/${challengeId}`, undefined, {
+			headers: { 'X-User-Token': userToken },
+		});
+		return response.challenge;
+	}
 }
 
 export function createCircleApiClient(config: CircleApiConfig): CircleApiClient {
 	return new CircleApiClient(config);
 }
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check the serialized body of a sent request for an idempotency key
+ */
+function hasBodyIdempotencyKey(data: unknown): boolean {
+	if (typeof data !== 'string') {
+		return isPlainObject(data) && typeof data.idempotencyKey === 'string';
+	}
+	try {
+		const body = JSON.parse(data) as unknown;
+		return isPlainObject(body) && typeof body.idempotencyKey === 'string';
+	} catch {
+		return false;
+	}
+}
@@ -0,0 +1,168 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Credential Tests
+ *
+ * Checks run when a Circle credential is saved, so bad API keys, RPC URLs
+ * and private keys surface in the credential dialog instead of at runtime.
+ */
+
+import axios from 'axios';
+import { ethers } from 'ethers';
+import type { ICredentialDataDecryptedObject, INodeCredentialTestResult } from 'n8n-workflow';
+import { NETWORKS } from '../constants/networks';
+import { getAttestationServiceUrl } from '../constants/domains';
+import { createCircleApiClient } from './circleApi';
+import { CircleAuthenticationError, CircleError } from './errors';
+
+const TEST_TIMEOUT = 10000;
+
+type CircleEnvironment = 'production' | 'sandbox';
+
+/**
+ * Read the environment a Circle API key was issued for from its prefix
+ *
+ * @param apiKey - Circle API key (e.g. TEST_API_KEY:...:...)
+ * @returns 'production' for LIVE_API_KEY, 'sandbox' for TEST_API_KEY, undefined otherwise
+ */
+export function getApiKeyEnvironment(apiKey: string): CircleEnvironment | undefined {
+	const prefix = apiKey.trim().split(':')[0];
+	if (prefix === 'LIVE_API_KEY') return 'production';
+	if (prefix === 'TEST_API_KEY') return 'sandbox';
+	return undefined;
+}
+
+/**
+ * Test a Circle Platform credential with an authenticated /v1/configuration call
+ */
+export async function testPlatformCredential(credentials: ICredentialDataDecryptedObject): Promise<INodeCredentialTestResult> {
+	const apiKey = String(credentials.apiKey || '');
+	const environment = credentials.environment as CircleEnvironment;
+
+	const keyEnvironment = getApiKeyEnvironment(apiKey);
+	if (keyEnvironment && keyEnvironment !== environment) {
+		return {
+			status: 'Error',
+			message: `This is a ${keyEnvironment} API key but Environment is set to ${environment}. Switch Environment to ${keyEnvironment} or use a ${environment} key.`,
+		};
+	}
+
+	const client = createCircleApiClient({ apiKey, environment, maxRetries: 0, timeout: TEST_TIMEOUT });
+	try {
+		await client.getConfiguration();
+	} catch (error) {
+		if (error instanceof CircleAuthenticationError) {
+			return {
+				status: 'Error',
+				message: `Circle ${environment} rejected the API key. Check the key and that it belongs to the ${environment} environment.`,
+			};
+		}
+		return { status: 'Error', message: error instanceof CircleError ? error.message : `Could not reach Circle ${environment}: ${(error as Error).message}` };
+	}
+
+	return { status: 'OK', message: `Connected to Circle ${environment}` };
+}
+
+/**
+ * Test a Circle Blockchain credential: RPC chain ID and private key
+ */
+export async function testBlockchainCredential(credentials: ICredentialDataDecryptedObject): Promise<INodeCredentialTestResult> {
+	const network = credentials.network as string;
+	const rpcUrl = String(credentials.rpcUrl || '');
+	const expectedChainId = network === 'custom' ? credentials.chainId : NETWORKS[network]?.chainId;
+
+	// Non-EVM RPCs (Solana, Stellar, ...) have no eth_chainId to ask, so only reachability is checked
+	if (typeof expectedChainId !== 'number') {
+		try {
+			await checkRpcEndpoint(network, rpcUrl);
+		} catch (error) {
+			return { status: 'Error', message: `RPC endpoint is not reachable: ${(error as Error).message}` };
+		}
+		return { status: 'OK', message: `RPC endpoint is reachable; the chain is not verified on ${NETWORKS[network]?.name ?? network}` };
+	}
+
+	let signer = '';
+	if (credentials.privateKey) {
+		try {
+			signer = new ethers.Wallet(credentials.privateKey as string).address;
+		} catch {
+			return { status: 'Error', message: 'Private key is not a valid EVM private key' };
+		}
+	}
+
+	let chainId: number;
+	try {
+		chainId = await getRpcChainId(rpcUrl);
+	} catch (error) {
+		return { status: 'Error', message: `RPC endpoint is not reachable: ${(error as Error).message}` };
+	}
+	if (chainId !== expectedChainId) {
+		return { status: 'Error', message: `RPC endpoint is on chain ID ${chainId}, expected ${expectedChainId} for ${NETWORKS[network]?.name ?? network}` };
+	}
+
+	return { status: 'OK', message: signer ? `Connected to chain ID ${chainId}. Signer address: ${signer}` : `Connected to chain ID ${chainId}` };
+}
+
+/**
+ * Test a Circle CCTP credential: both RPC endpoints and the attestation service
+ */
+export async function testCctpCredential(credentials: ICredentialDataDecryptedObject): Promise<INodeCredentialTestResult> {
+	const endpoints: Array<[string, string, string]> = [
+		['Source', credentials.sourceNetwork as string, String(credentials.sourceRpcUrl || '')],
+		['Destination', credentials.destinationNetwork as string, String(credentials.destinationRpcUrl || '')],
+	];
+
+	for (const [label, network, rpcUrl] of endpoints) {
+		if (!rpcUrl) {
+			return { status: 'Error', message: `${label} RPC URL is required` };
+		}
+		try {
+			await checkRpcEndpoint(network, rpcUrl);
+		} catch (error) {
+			return { status: 'Error', message: `${label} RPC endpoint (${network}): ${(error as Error).message}` };
+		}
+	}
+
+	const attestationUrl = String(credentials.attestationServiceUrl || '')
+		|| getAttestationServiceUrl(NETWORKS[credentials.sourceNetwork as string]?.isTestnet ?? false);
+	try {
+		// Any answer below 500 (typically 404 for an unknown hash) means the service is up
+		await axios.get(`${attestationUrl.replace(/\/$/, '')}/${ethers.ZeroHash}`, {
+			timeout: TEST_TIMEOUT,
+			validateStatus: status => status < 500,
+		});
+	} catch (error) {
+		return { status: 'Error', message: `Attestation service ${attestationUrl} is not reachable: ${(error as Error).message}` };
+	}
+
+	return { status: 'OK', message: 'Source RPC, destination RPC and attestation service are reachable' };
+}
+
+async function getRpcChainId(rpcUrl: string): Promise<number> {
+	const response = await axios.post(rpcUrl, { jsonrpc: '2.0', id: 1, method: 'eth_chainId', params: [] }, { timeout: TEST_TIMEOUT });
+	const result = response.data?.result;
+	if (typeof result !== 'string') {
+		throw new Error(response.data?.error?.message || 'eth_chainId returned no result');
+	}
+	return Number(BigInt(result));
+}
+
+/**
+ * Check an RPC endpoint, verifying the chain ID for EVM networks
+ */
+async function checkRpcEndpoint(network: string, rpcUrl: string): Promise<void> {
+	const expectedChainId = NETWORKS[network]?.chainId;
+	if (typeof expectedChainId === 'number') {
+		const chainId = await getRpcChainId(rpcUrl);
+		if (chainId !== expectedChainId) {
+			throw new Error(`chain ID is ${chainId}, expected ${expectedChainId}`);
+		}
+		return;
+	}
+	await axios.get(rpcUrl, { timeout: TEST_TIMEOUT, validateStatus: status => status < 500 });
+}
@@ -0,0 +1,184 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Circle API Errors
+ *
+ * Typed errors raised by the Circle API client. Each error carries the HTTP
+ * status, Circle's numeric error code, its symbolic name from ERROR_CODES
+ * and the field-level details Circle returns in `errors[]`.
+ */
+
+import { ERROR_CODES, ERROR_DESCRIPTIONS, CircleErrorCodeName } from '../constants/endpoints';
+import { isRetryableStatus } from '../utils/retryUtils';
+
+export interface CircleErrorDetail {
+	error: string;
+	message: string;
+	location?: string;
+	invalidValue?: unknown;
+	constraints?: Record<string, unknown>;
+}
+
+export interface CircleErrorOptions {
+	httpStatus?: number;
+	code?: number;
+	details?: CircleErrorDetail[];
+	retryable?: boolean;
+}
+
+const ERROR_CODE_NAMES = Object.fromEntries(
+	Object.entries(ERROR_CODES).map(([name, code]) => [code, name]),
+) as Record<number, CircleErrorCodeName>;
+
+export class CircleError extends Error {
+	readonly httpStatus?: number;
+	readonly code?: number;
+	readonly errorCode: CircleErrorCodeName | 'UNKNOWN';
+	readonly details: CircleErrorDetail[];
+	readonly retryable: boolean;
+
+	constructor(message: string, options: CircleErrorOptions = {}) {
+		super(message);
+		this.name = new.target.name;
+		this.httpStatus = options.httpStatus;
+		this.code = options.code;
+		this.errorCode = (options.code !== undefined && ERROR_CODE_NAMES[options.code]) || 'UNKNOWN';
+		this.details = options.details ?? [];
+		this.retryable = options.retryable
+			?? (options.httpStatus !== undefined && isRetryableStatus(options.httpStatus));
+	}
+
+	/**
+	 * Explanation of the error code followed by Circle's per-field messages
+	 */
+	get description(): string {
+		const lines: string[] = [];
+		if (this.errorCode !== 'UNKNOWN') {
+			lines.push(ERROR_DESCRIPTIONS[this.errorCode]);
+		}
+		for (const detail of this.details) {
+			lines.push(detail.location ? `${detail.location}: ${detail.message}` : detail.message);
+		}
+		return lines.join('\n');
+	}
+
+	toJSON(): Record<string, unknown> {
+		return {
+			name: this.name,
+			message: this.message,
+			httpStatus: this.httpStatus ?? null,
+			code: this.code ?? null,
+			errorCode: this.errorCode,
+			details: this.details.map(detail => ({ ...detail })),
+			retryable: this.retryable,
+		};
+	}
+}
+
+export class CircleValidationError extends CircleError {}
+
+export class CircleAuthenticationError extends CircleError {}
+
+export class CircleNotFoundError extends CircleError {}
+
+export class CircleRateLimitError extends CircleError {}
+
+export class CirclePaymentError extends CircleError {}
+
+export class CircleComplianceError extends CircleError {}
+
+export class CircleIdempotencyError extends CircleError {}
+
+export class CircleServerError extends CircleError {}
+
+/**
+ * A Circle response did not match the model the client expected
+ */
+export class CircleResponseValidationError extends CircleError {}
+
+/**
+ * A transfer, payout or payment that was waited on ended in a failure status
+ */
+export class CircleFinalStatusError extends CircleError {
+	readonly status: string;
+	readonly result: Record<string, unknown>;
+
+	constructor(message: string, status: string, result: Record<string, unknown>, options: CircleErrorOptions = {}) {
+		super(message, { retryable: false, ...options });
+		this.status = status;
+		this.result = result;
+	}
+
+	toJSON(): Record<string, unknown> {
+		return { ...super.toJSON(), status: this.status, result: this.result };
+	}
+}
+
+type CircleErrorClass = new (message: string, options?: CircleErrorOptions) => CircleError;
+
+const ERROR_CLASSES_BY_CODE: Partial<Record<CircleErrorCodeName, CircleErrorClass>> = {
+	INVALID_REQUEST: CircleValidationError,
+	INVALID_ADDRESS: CircleValidationError,
+	UNAUTHORIZED: CircleAuthenticationError,
+	FORBIDDEN: CircleAuthenticationError,
+	NOT_FOUND: CircleNotFoundError,
+	RATE_LIMITED: CircleRateLimitError,
+	CARD_DECLINED: CirclePaymentError,
+	INSUFFICIENT_FUNDS: CirclePaymentError,
+	CARD_NOT_SUPPORTED: CirclePaymentError,
+	PAYMENT_FAILED: CirclePaymentError,
+	INSUFFICIENT_BALANCE: CirclePaymentError,
+	BLACKLISTED_ADDRESS: CircleComplianceError,
+	COMPLIANCE_CHECK_FAILED: CircleComplianceError,
+	SANCTIONS_MATCH: CircleComplianceError,
+	IDEMPOTENCY_KEY_REUSED: CircleIdempotencyError,
+};
+
+function getErrorClassForStatus(httpStatus: number): CircleErrorClass {
+	if (httpStatus === 400 || httpStatus === 422) return CircleValidationError;
+	if (httpStatus === 401 || httpStatus === 403) return CircleAuthenticationError;
+	if (httpStatus === 404) return CircleNotFoundError;
+	if (httpStatus === 409) return CircleIdempotencyError;
+	if (httpStatus === 429) return CircleRateLimitError;
+	if (httpStatus >= 500) return CircleServerError;
+	return CircleError;
+}
+
+/**
+ * Build the matching typed error from a Circle error response
+ *
+ * The Circle error code decides the class when it is known; otherwise the
+ * HTTP status does.
+ *
+ * @param httpStatus - HTTP status of the response
+ * @param body - Response body (`{ code, message, errors }` for Circle errors)
+ * @param fallbackMessage - Message to use when the body has none
+ * @returns Typed Circle error
+ */
+export function createCircleError(
+	httpStatus: number,
+	body: unknown,
+	fallbackMessage: string = `Request failed with status ${httpStatus}`,
+): CircleError {
+	const data = (body && typeof body === 'object' ? body : {}) as {
+		code?: unknown;
+		message?: unknown;
+		errors?: unknown;
+	};
+
+	const code = typeof data.code === 'number' ? data.code : undefined;
+	const details = Array.isArray(data.errors) ? (data.errors as CircleErrorDetail[]) : [];
+	const apiMessage = typeof data.message === 'string' && data.message ? data.message : fallbackMessage;
+	const message = code !== undefined ? `Circle API Error ${code}: ${apiMessage}` : `Circle API Error: ${apiMessage}`;
+
+	const codeName = code !== undefined ? ERROR_CODE_NAMES[code] : undefined;
+	const ErrorClass = (codeName && ERROR_CLASSES_BY_CODE[codeName]) || getErrorClassForStatus(httpStatus);
+	const retryable = isRetryableStatus(httpStatus) || codeName === 'RATE_LIMITED';
+
+	return new ErrorClass(message, { httpStatus, code, details, retryable });
+}
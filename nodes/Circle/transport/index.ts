@@ -12,6 +12,11 @@
  */
 
 export * from './circleApi';
+export * from './errors';
+export * from './rateLimiter';
 export * from './cctpClient';
 export * from './onchainClient';
 export * from './webhookHandler';
+export * from './credentialTests';
+export * from './listSearch';
+export * from './models';
@@ -0,0 +1,126 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * List Search
+ *
+ * Backs the "From list" mode of the node's resource locators, so users pick
+ * wallets, recipients, subscriptions, bank accounts and payouts by
+ * description instead of pasting IDs.
+ */
+
+import type { INodeListSearchItems, INodeListSearchResult } from 'n8n-workflow';
+import { CircleApiClient, PaginationParams } from './circleApi';
+import { PAGINATION } from '../constants/endpoints';
+
+type CircleRecord = Record<string, unknown>;
+
+/**
+ * Search Circle Accounts wallets
+ */
+export async function searchWallets(client: CircleApiClient, filter?: string, paginationToken?: string): Promise<INodeListSearchResult> {
+	const wallets = await client.getWallets(getPageParams(paginationToken));
+	return toSearchResult(wallets, wallet => ({
+		name: wallet.description ? `${wallet.description} (${wallet.walletId})` : String(wallet.walletId),
+		value: String(wallet.walletId),
+	}), filter, getNextPageToken(wallets, 'walletId'));
+}
+
+/**
+ * Search Programmable Wallets, the developer's or, given a user token, an
+ * end user's
+ */
+export async function searchProgrammableWallets(
+	client: CircleApiClient,
+	filter?: string,
+	paginationToken?: string,
+	userToken?: string,
+): Promise<INodeListSearchResult> {
+	const wallets = await client.getProgrammableWallets(getPageParams(paginationToken), userToken);
+	return toSearchResult(wallets, wallet => ({
+		name: `${wallet.name || wallet.address} (${wallet.blockchain})`,
+		value: String(wallet.id),
+	}), filter, getNextPageToken(wallets, 'id'));
+}
+
+/**
+ * Search payouts, newest first
+ */
+export async function searchPayouts(client: CircleApiClient, filter?: string, paginationToken?: string): Promise<INodeListSearchResult> {
+	const payouts = await client.getPayouts(getPageParams(paginationToken));
+	return toSearchResult(payouts, payout => ({
+		name: `${payout.amount.amount} ${payout.amount.currency} ${payout.status} (${payout.id})`,
+		value: payout.id,
+	}), filter, getNextPageToken(payouts, 'id'));
+}
+
+/**
+ * Search address book recipients
+ */
+export async function searchRecipients(client: CircleApiClient, filter?: string, paginationToken?: string): Promise<INodeListSearchResult> {
+	const recipients = await client.getRecipients(getPageParams(paginationToken));
+	return toSearchResult(recipients, recipient => {
+		const metadata = (recipient.metadata || {}) as CircleRecord;
+		const label = metadata.nickname || metadata.email || recipient.address;
+		return { name: `${label} (${recipient.chain})`, value: String(recipient.id) };
+	}, filter, getNextPageToken(recipients, 'id'));
+}
+
+/**
+ * Search webhook subscriptions
+ */
+export async function searchSubscriptions(client: CircleApiClient, filter?: string, paginationToken?: string): Promise<INodeListSearchResult> {
+	const subscriptions = await client.getSubscriptions(getPageParams(paginationToken));
+	return toSearchResult(subscriptions, subscription => ({
+		name: String(subscription.endpoint),
+		value: String(subscription.id),
+	}), filter, getNextPageToken(subscriptions, 'id'));
+}
+
+/**
+ * Search wire bank accounts, either those linked for payments and payouts or
+ * those linked to the business account
+ */
+export async function searchBankAccounts(
+	client: CircleApiClient,
+	source: 'wire' | 'business',
+	filter?: string,
+	paginationToken?: string,
+): Promise<INodeListSearchResult> {
+	// Business bank accounts come back in a single unpaginated list
+	const bankAccounts = source === 'business'
+		? await client.getBusinessBankAccounts()
+		: await client.getWireBankAccounts(getPageParams(paginationToken));
+	return toSearchResult(bankAccounts, bankAccount => ({
+		name: String(bankAccount.description || bankAccount.id),
+		value: String(bankAccount.id),
+	}), filter, source === 'wire' ? getNextPageToken(bankAccounts, 'id') : undefined);
+}
+
+function getPageParams(paginationToken?: string): PaginationParams {
+	return paginationToken ? { pageSize: PAGINATION.maxPageSize, pageAfter: paginationToken } : { pageSize: PAGINATION.maxPageSize };
+}
+
+function getNextPageToken(records: CircleRecord[], idField: string): string | undefined {
+	return records.length === PAGINATION.maxPageSize ? String(records[records.length - 1][idField]) : undefined;
+}
+
+/**
+ * Map records to list items, keeping those whose name or ID contains the filter
+ */
+function toSearchResult<T extends CircleRecord>(
+	records: T[],
+	toItem: (record: T) => INodeListSearchItems,
+	filter?: string,
+	paginationToken?: string,
+): INodeListSearchResult {
+	const needle = filter?.trim().toLowerCase();
+	const results = records
+		.map(toItem)
+		.filter(item => !needle || item.name.toLowerCase().includes(needle) || String(item.value).toLowerCase().includes(needle));
+	return { results, paginationToken };
+}
@@ -0,0 +1,246 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Circle Response Models
+ *
+ * Shapes of the Circle Platform records returned by CircleApiClient, and the
+ * runtime check every response goes through. Money fields are normalized on
+ * the way: `amount` is always a decimal string such as "10.00" and
+ * `currency` is upper-case.
+ */
+
+import { normalizeMoneyAmount } from '../utils/amountUtils';
+import { CircleErrorDetail, CircleResponseValidationError } from './errors';
+
+/**
+ * Any Circle record. Fields not modelled below are passed through untouched.
+ */
+export interface CircleRecord {
+	[field: string]: unknown;
+}
+
+export interface Money {
+	amount: string;
+	currency: string;
+}
+
+export type Balance = Money;
+
+export interface Wallet extends CircleRecord {
+	walletId: string;
+	entityId?: string;
+	type?: string;
+	description?: string;
+	balances?: Balance[];
+}
+
+export interface Transfer extends CircleRecord {
+	id: string;
+	source: CircleRecord;
+	destination: CircleRecord;
+	amount: Money;
+	status: string;
+	transactionHash?: string;
+	createDate?: string;
+}
+
+export interface Payment extends CircleRecord {
+	id: string;
+	type?: string;
+	amount: Money;
+	fees?: Money;
+	status: string;
+	createDate?: string;
+}
+
+export interface Payout extends CircleRecord {
+	id: string;
+	destination: CircleRecord;
+	amount: Money;
+	fees?: Money;
+	status: string;
+	createDate?: string;
+}
+
+export interface Recipient extends CircleRecord {
+	id: string;
+	chain: string;
+	address: string;
+	status?: string;
+	metadata?: CircleRecord;
+}
+
+export interface Settlement extends CircleRecord {
+	id: string;
+	merchantWalletId?: string;
+	totalDebits?: Money;
+	totalCredits?: Money;
+	paymentFees?: Money;
+	chargebackFees?: Money;
+	createDate?: string;
+}
+
+export interface Subscription extends CircleRecord {
+	id: string;
+	endpoint: string;
+	subscriptionDetails?: CircleRecord[];
+}
+
+export interface Balances extends CircleRecord {
+	available: Balance[];
+	unsettled: Balance[];
+}
+
+interface Models {
+	Wallet: Wallet;
+	Transfer: Transfer;
+	Payment: Payment;
+	Payout: Payout;
+	Recipient: Recipient;
+	Settlement: Settlement;
+	Subscription: Subscription;
+	Balances: Balances;
+}
+
+export type ModelName = keyof Models;
+
+type FieldType = 'string' | 'object' | 'array' | 'money' | 'money[]';
+
+/**
+ * Expected type of each field; a trailing "?" marks it optional
+ */
+type ModelSchema = Record<string, FieldType | `${FieldType}?`>;
+
+export const MODEL_SCHEMAS: Record<ModelName, ModelSchema> = {
+	Wallet: { walletId: 'string', entityId: 'string?', type: 'string?', description: 'string?', balances: 'money[]?' },
+	Transfer: { id: 'string', source: 'object', destination: 'object', amount: 'money', status: 'string', transactionHash: 'string?', createDate: 'string?' },
+	Payment: { id: 'string', type: 'string?', amount: 'money', fees: 'money?', status: 'string', createDate: 'string?' },
+	Payout: { id: 'string', destination: 'object', amount: 'money', fees: 'money?', status: 'string', createDate: 'string?' },
+	Recipient: { id: 'string', chain: 'string', address: 'string', status: 'string?', metadata: 'object?' },
+	Settlement: {
+		id: 'string', merchantWalletId: 'string?', totalDebits: 'money?', totalCredits: 'money?',
+		paymentFees: 'money?', chargebackFees: 'money?', createDate: 'string?',
+	},
+	Subscription: { id: 'string', endpoint: 'string', subscriptionDetails: 'array?' },
+	Balances: { available: 'money[]', unsettled: 'money[]' },
+};
+
+/**
+ * Check a response against its model and normalize its money fields
+ *
+ * @param name - Model the response should match
+ * @param value - Response data
+ * @returns A copy of the response with money fields normalized
+ * @throws CircleResponseValidationError listing every mismatched field
+ */
+export function validateModel<K extends ModelName>(name: K, value: unknown): Models[K] {
+	const problems: CircleErrorDetail[] = [];
+	const result = checkRecord(name, value, name, problems);
+	throwIfInvalid(name, problems);
+	return result as Models[K];
+}
+
+/**
+ * Check a list response, item by item
+ *
+ * @param name - Model every item should match
+ * @param value - Response data
+ * @returns Copies of the items with money fields normalized
+ * @throws CircleResponseValidationError listing every mismatched field
+ */
+export function validateModels<K extends ModelName>(name: K, value: unknown): Models[K][] {
+	if (!Array.isArray(value)) {
+		throwIfInvalid(name, [invalid(`${name}[]`, `expected a list, got ${describeType(value)}`)]);
+	}
+	const problems: CircleErrorDetail[] = [];
+	const results = (value as unknown[]).map((item, index) => checkRecord(name, item, `${name}[${index}]`, problems));
+	throwIfInvalid(name, problems);
+	return results as Models[K][];
+}
+
+function checkRecord(name: ModelName, value: unknown, path: string, problems: CircleErrorDetail[]): CircleRecord | undefined {
+	if (!isRecord(value)) {
+		problems.push(invalid(path, `expected an object, got ${describeType(value)}`));
+		return undefined;
+	}
+
+	const record: CircleRecord = { ...value };
+	for (const [field, spec] of Object.entries(MODEL_SCHEMAS[name])) {
+		const type = spec.replace(/\?$/, '') as FieldType;
+		const location = `${path}.${field}`;
+		const fieldValue = value[field];
+
+		if (fieldValue === undefined || fieldValue === null) {
+			if (!spec.endsWith('?')) {
+				problems.push(invalid(location, 'is required'));
+			}
+			continue;
+		}
+
+		if (type === 'money') {
+			record[field] = checkMoney(fieldValue, location, problems);
+		} else if (type === 'money[]') {
+			if (Array.isArray(fieldValue)) {
+				record[field] = fieldValue.map((item, index) => checkMoney(item, `${location}[${index}]`, problems));
+			} else {
+				problems.push(invalid(location, `expected a list of money amounts, got ${describeType(fieldValue)}`));
+			}
+		} else if (describeType(fieldValue) !== type) {
+			problems.push(invalid(location, `expected ${type}, got ${describeType(fieldValue)}`));
+		}
+	}
+	return record;
+}
+
+function checkMoney(value: unknown, location: string, problems: CircleErrorDetail[]): unknown {
+	if (!isRecord(value)) {
+		problems.push(invalid(location, `expected a money object, got ${describeType(value)}`));
+		return value;
+	}
+	if (typeof value.currency !== 'string' || !value.currency) {
+		problems.push(invalid(`${location}.currency`, 'is required'));
+		return value;
+	}
+	if (typeof value.amount !== 'string' && typeof value.amount !== 'number') {
+		problems.push(invalid(`${location}.amount`, value.amount === undefined ? 'is required' : `expected a decimal string, got ${describeType(value.amount)}`));
+		return value;
+	}
+	try {
+		return { ...value, amount: normalizeMoneyAmount(value.amount), currency: value.currency.toUpperCase() };
+	} catch {
+		problems.push(invalid(`${location}.amount`, `"${value.amount}" is not a decimal amount`));
+		return value;
+	}
+}
+
+function throwIfInvalid(name: ModelName, problems: CircleErrorDetail[]): void {
+	if (!problems.length) {
+		return;
+	}
+	const summary = problems.slice(0, 3).map(problem => `${problem.location} ${problem.message}`).join('; ');
+	const more = problems.length > 3 ? ` (and ${problems.length - 3} more)` : '';
+	throw new CircleResponseValidationError(
+		`Circle returned an unexpected ${name}: ${summary}${more}. `
+			+ 'The API may have changed; use Custom API Call to inspect the raw response.',
+		{ details: problems, retryable: false },
+	);
+}
+
+function invalid(location: string, message: string): CircleErrorDetail {
+	return { error: 'invalid_response', message, location };
+}
+
+function isRecord(value: unknown): value is CircleRecord {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describeType(value: unknown): string {
+	if (value === null) return 'null';
+	if (Array.isArray(value)) return 'array';
+	return typeof value;
+}
@@ -0,0 +1,189 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Rate Limiter
+ *
+ * Token buckets for Circle API requests, keyed by API key and endpoint
+ * family. Buckets live at module level so they persist across items and
+ * executions running in the same n8n process, and adapt to any
+ * X-RateLimit-* headers Circle returns.
+ */
+
+import { RATE_LIMITS } from '../constants/endpoints';
+import { sha256Hash } from '../utils/signatureUtils';
+import { sleep } from '../utils/retryUtils';
+
+export type EndpointFamily = keyof typeof RATE_LIMITS;
+
+/**
+ * Path prefixes for each endpoint family, most specific first
+ */
+const FAMILY_PREFIXES: Array<[string, EndpointFamily]> = [
+	['/v1/w3s/compliance', 'compliance'],
+	['/v1/compliance', 'compliance'],
+	['/v1/businessAccount/transfers', 'transfers'],
+	['/v1/transfers', 'transfers'],
+	['/v1/payments', 'payments'],
+	['/v1/paymentIntents', 'payments'],
+	['/v1/payouts', 'payments'],
+	['/v1/cards', 'payments'],
+	['/v1/settlements', 'payments'],
+	['/v1/chargebacks', 'payments'],
+	['/v1/reversals', 'payments'],
+	['/v1/wallets', 'accounts'],
+	['/v1/businessAccount', 'accounts'],
+	['/v1/banks', 'accounts'],
+];
+
+/**
+ * Resolve the rate limit family for an API path
+ *
+ * @param endpoint - Request path (e.g. /v1/transfers/123)
+ * @returns Endpoint family, 'default' when no prefix matches
+ */
+export function getEndpointFamily(endpoint: string): EndpointFamily {
+	const path = endpoint.split('?')[0];
+	for (const [prefix, family] of FAMILY_PREFIXES) {
+		if (path === prefix || path.startsWith(`${prefix}/`)) {
+			return family;
+		}
+	}
+	return 'default';
+}
+
+export class RateLimiter {
+	private capacity: number;
+	private tokens: number;
+	private refillPerMs: number;
+	private lastRefill: number;
+	private blockedUntil = 0;
+	private now: () => number;
+
+	constructor(requestsPerMinute: number, now: () => number = Date.now) {
+		this.now = now;
+		this.capacity = requestsPerMinute;
+		this.tokens = requestsPerMinute;
+		this.refillPerMs = requestsPerMinute / 60000;
+		this.lastRefill = now();
+	}
+
+	private refill(): void {
+		const now = this.now();
+		const elapsed = now - this.lastRefill;
+		if (elapsed > 0) {
+			this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.refillPerMs);
+			this.lastRefill = now;
+		}
+	}
+
+	/**
+	 * Take a token if one is available
+	 *
+	 * @returns 0 if a token was taken, otherwise milliseconds to wait before trying again
+	 */
+	reserve(): number {
+		this.refill();
+
+		const now = this.now();
+		if (this.blockedUntil > now) {
+			return this.blockedUntil - now;
+		}
+
+		if (this.tokens >= 1) {
+			this.tokens -= 1;
+			return 0;
+		}
+
+		return Math.ceil((1 - this.tokens) / this.refillPerMs);
+	}
+
+	async acquire(): Promise<void> {
+		let wait = this.reserve();
+		while (wait > 0) {
+			await sleep(wait);
+			wait = this.reserve();
+		}
+	}
+
+	/**
+	 * Adapt the bucket to X-RateLimit-Limit, -Remaining and -Reset headers
+	 *
+	 * The limit is read as requests per minute. Reset may be epoch seconds
+	 * or seconds from now; when nothing remains, requests wait until then.
+	 */
+	updateFromHeaders(headers: Record<string, unknown> | undefined): void {
+		if (!headers) {
+			return;
+		}
+
+		const limit = parseHeaderNumber(headers['x-ratelimit-limit']);
+		const remaining = parseHeaderNumber(headers['x-ratelimit-remaining']);
+		const reset = parseHeaderNumber(headers['x-ratelimit-reset']);
+
+		this.refill();
+
+		if (limit !== undefined && limit > 0 && limit !== this.capacity) {
+			this.capacity = limit;
+			this.refillPerMs = limit / 60000;
+			this.tokens = Math.min(this.tokens, limit);
+		}
+
+		if (remaining !== undefined) {
+			this.tokens = Math.min(this.tokens, remaining);
+		}
+
+		if (remaining === 0 && reset !== undefined) {
+			const now = this.now();
+			const resetAt = reset > 1_000_000_000 ? reset * 1000 : now + reset * 1000;
+			this.blockedUntil = Math.max(this.blockedUntil, resetAt);
+		}
+	}
+
+	getState(): { capacity: number; tokens: number; blockedUntil: number } {
+		this.refill();
+		return { capacity: this.capacity, tokens: this.tokens, blockedUntil: this.blockedUntil };
+	}
+}
+
+function parseHeaderNumber(value: unknown): number | undefined {
+	if (value === undefined || value === null || value === '') {
+		return undefined;
+	}
+	const parsed = Number(value);
+	return isNaN(parsed) ? undefined : parsed;
+}
+
+const limiters = new Map<string, RateLimiter>();
+
+/**
+ * Get the shared rate limiter for an API key and endpoint
+ *
+ * The API key is hashed so it is never held in the limiter map.
+ *
+ * @param apiKey - Circle API key
+ * @param endpoint - Request path
+ * @returns Rate limiter shared by every client using the same key and family
+ */
+export function getRateLimiter(apiKey: string, endpoint: string): RateLimiter {
+	const family = getEndpointFamily(endpoint);
+	const key = `${sha256Hash(apiKey)}:${family}`;
+
+	let limiter = limiters.get(key);
+	if (!limiter) {
+		limiter = new RateLimiter(RATE_LIMITS[family]);
+		limiters.set(key, limiter);
+	}
+	return limiter;
+}
+
+/**
+ * Drop all shared rate limiters
+ */
+export function resetRateLimiters(): void {
+	limiters.clear();
+}
@@ -0,0 +1,195 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * ABI Utilities
+ *
+ * ethers-based helpers for Circle Smart Contract Platform operations:
+ * resolving function signatures, validating and encoding parameters, and
+ * decoding call results and event logs into JSON-safe values.
+ */
+
+import { ethers } from 'ethers';
+
+/**
+ * Parse a contract ABI
+ *
+ * @param abi - ABI as a JSON string or array
+ * @returns ethers Interface
+ * @throws Error if the ABI is not valid JSON or not an ABI
+ */
+export function parseAbi(abi: string | ReadonlyArray<unknown>): ethers.Interface {
+	let fragments: unknown = abi;
+	if (typeof abi === 'string') {
+		try {
+			fragments = JSON.parse(abi);
+		} catch {
+			throw new Error('ABI must be valid JSON');
+		}
+	}
+	if (!Array.isArray(fragments)) {
+		throw new Error('ABI must be a JSON array');
+	}
+	return new ethers.Interface(fragments as ethers.InterfaceAbi);
+}
+
+/**
+ * Find a function in an ABI
+ *
+ * @param abi - Contract ABI
+ * @param nameOrSignature - Function name, or full signature when overloaded (e.g. "mint(address,uint256)")
+ * @returns Function fragment
+ * @throws Error if the function is missing or ambiguous
+ */
+export function getAbiFunction(abi: string | ReadonlyArray<unknown>, nameOrSignature: string): ethers.FunctionFragment {
+	const iface = parseAbi(abi);
+	let fragment: ethers.FunctionFragment | null;
+	try {
+		fragment = iface.getFunction(nameOrSignature.trim());
+	} catch (error) {
+		if (ethers.isError(error, 'INVALID_ARGUMENT') && error.shortMessage.startsWith('ambiguous function description')) {
+			throw new Error(`Function "${nameOrSignature}" is overloaded; use its full signature`);
+		}
+		throw error;
+	}
+	if (!fragment) {
+		throw new Error(`Function "${nameOrSignature}" not found in ABI`);
+	}
+	return fragment;
+}
+
+/**
+ * Get the canonical signature Circle expects in `abiFunctionSignature`
+ *
+ * @param abi - Contract ABI, or undefined to use the signature as given
+ * @param nameOrSignature - Function name or signature
+ * @returns Signature such as "transfer(address,uint256)"
+ */
+export function getAbiFunctionSignature(abi: string | ReadonlyArray<unknown> | undefined, nameOrSignature: string): string {
+	if (!abi || (typeof abi === 'string' && !abi.trim())) {
+		return ethers.FunctionFragment.from(nameOrSignature.trim()).format('sighash');
+	}
+	return getAbiFunction(abi, nameOrSignature).format('sighash');
+}
+
+/**
+ * Parse function parameters from a JSON array
+ *
+ * @param parameters - JSON array string, array, or empty for no parameters
+ * @returns Parameter values
+ */
+export function parseAbiParameters(parameters: string | unknown[] | undefined): unknown[] {
+	if (parameters === undefined || parameters === '') {
+		return [];
+	}
+	if (Array.isArray(parameters)) {
+		return parameters;
+	}
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(parameters);
+	} catch {
+		throw new Error('Parameters must be a JSON array');
+	}
+	if (!Array.isArray(parsed)) {
+		throw new Error('Parameters must be a JSON array');
+	}
+	return parsed;
+}
+
+/**
+ * Encode a function call, validating the parameters against the ABI
+ *
+ * @param abi - Contract ABI
+ * @param nameOrSignature - Function name or signature
+ * @param parameters - Parameter values
+ * @returns Hex call data
+ * @throws Error naming the function if the parameters don't match its inputs
+ */
+export function encodeFunctionCall(abi: string | ReadonlyArray<unknown>, nameOrSignature: string, parameters: unknown[]): string {
+	const fragment = getAbiFunction(abi, nameOrSignature);
+	try {
+		return parseAbi(abi).encodeFunctionData(fragment, parameters);
+	} catch (error) {
+		throw new Error(`Invalid parameters for ${fragment.format('sighash')}: ${(error as Error).message}`);
+	}
+}
+
+/**
+ * Encode constructor arguments, validating them against the ABI
+ *
+ * @param abi - Contract ABI
+ * @param parameters - Constructor argument values
+ * @returns Hex-encoded arguments
+ */
+export function encodeConstructorArgs(abi: string | ReadonlyArray<unknown>, parameters: unknown[]): string {
+	try {
+		return parseAbi(abi).encodeDeploy(parameters);
+	} catch (error) {
+		throw new Error(`Invalid constructor parameters: ${(error as Error).message}`);
+	}
+}
+
+/**
+ * Decode the return data of a function call
+ *
+ * @param abi - Contract ABI
+ * @param nameOrSignature - Function name or signature
+ * @param data - Hex return data
+ * @returns Output values, JSON-safe
+ */
+export function decodeFunctionResult(abi: string | ReadonlyArray<unknown>, nameOrSignature: string, data: string): unknown[] {
+	const fragment = getAbiFunction(abi, nameOrSignature);
+	return toJsonSafe(parseAbi(abi).decodeFunctionResult(fragment, data)) as unknown[];
+}
+
+/**
+ * Decode an event log
+ *
+ * @param abi - Contract ABI
+ * @param log - Log topics and data
+ * @returns Event name, signature and named arguments, or null if no event in the ABI matches
+ */
+export function decodeEventLog(
+	abi: string | ReadonlyArray<unknown>,
+	log: { topics: string[]; data: string },
+): { name: string; signature: string; args: Record<string, unknown> } | null {
+	let parsed: ethers.LogDescription | null;
+	try {
+		parsed = parseAbi(abi).parseLog(log);
+	} catch {
+		return null;
+	}
+	if (!parsed) {
+		return null;
+	}
+
+	const args: Record<string, unknown> = {};
+	parsed.fragment.inputs.forEach((input, index) => {
+		args[input.name || String(index)] = toJsonSafe(parsed!.args[index]);
+	});
+	return { name: parsed.name, signature: parsed.signature, args };
+}
+
+/**
+ * Convert ethers values to plain JSON (bigints become decimal strings)
+ *
+ * @param value - Value returned by ethers
+ * @returns JSON-serializable value
+ */
+export function toJsonSafe(value: unknown): unknown {
+	if (typeof value === 'bigint') {
+		return value.toString();
+	}
+	if (value instanceof ethers.Result) {
+		return Array.from(value, item => toJsonSafe(item));
+	}
+	if (Array.isArray(value)) {
+		return value.map(item => toJsonSafe(item));
+	}
+	return value;
+}
@@ -178,6 +178,26 @@ export function roundAmount(amount: number, decimals: number = STABLECOIN_DECIMA
 	return Math.round(amount * multiplier) / multiplier;
 }
 
+/**
+ * Normalize a Circle money amount to a plain decimal string
+ * Example: 100 -> "100.00", "12.500" -> "12.50", 0.000001 -> "0.000001"
+ * 
+ * @param amount - Amount as returned by Circle (string, or a number from older endpoints)
+ * @returns Decimal string with at least 2 decimal places and no trailing zeros beyond them
+ * @throws Error if the amount is not a finite decimal
+ */
+export function normalizeMoneyAmount(amount: string | number): string {
+	const text = typeof amount === 'number'
+		? (Number.isFinite(amount) ? amount.toFixed(STABLECOIN_DECIMALS) : '')
+		: String(amount).trim();
+	const match = text.match(/^(-?)(\d+)(?:\.(\d+))?$/);
+	if (!match) {
+		throw new Error(`Invalid money amount: ${amount}`);
+	}
+	const [, sign, whole, fraction = ''] = match;
+	return `${sign}${whole.replace(/^0+(?=\d)/, '')}.${fraction.replace(/0+$/, '').padEnd(2, '0')}`;
+}
+
 /**
  * Calculate percentage of an amount
  * 
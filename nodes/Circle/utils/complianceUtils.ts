@@ -0,0 +1,86 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Compliance Utilities
+ *
+ * Normalizes Circle Compliance Engine screening responses into a single
+ * approve / review / deny verdict that workflows can branch on.
+ */
+
+export type ComplianceVerdict = 'approve' | 'review' | 'deny';
+
+/**
+ * Risk scores reported by Compliance Engine, lowest first
+ */
+export const RISK_SCORES = ['UNKNOWN', 'LOW', 'MEDIUM', 'HIGH', 'SEVERE', 'BLOCKLIST'];
+
+/**
+ * Rule actions that block the address or transaction
+ */
+const DENY_ACTIONS = ['DENY', 'FREEZE_WALLET'];
+
+interface ScreeningReason {
+	source?: string;
+	sourceValue?: string;
+	riskScore?: string;
+	riskCategories?: string[];
+	type?: string;
+}
+
+export interface ScreeningSummary {
+	verdict: ComplianceVerdict;
+	rules: string[];
+	actions: string[];
+	riskCategories: string[];
+	riskScore: string | null;
+}
+
+/**
+ * Summarize a Compliance Engine screening result
+ *
+ * A DENY or FREEZE_WALLET action (or a DENIED result) means deny, a REVIEW
+ * action means review, anything else approve.
+ *
+ * @param result - Screening response (`result`, `decision`)
+ * @returns Verdict, triggered rules, actions, risk categories and the highest risk score
+ */
+export function normalizeScreeningResult(result: Record<string, unknown>): ScreeningSummary {
+	const decision = (result.decision || {}) as {
+		ruleName?: string;
+		ruleNames?: string[];
+		actions?: string[];
+		reasons?: ScreeningReason[];
+	};
+
+	const actions = (decision.actions || []).map(action => action.toUpperCase());
+	const reasons = decision.reasons || [];
+
+	const rules = unique([
+		...(decision.ruleName ? [decision.ruleName] : []),
+		...(decision.ruleNames || []),
+	]);
+	const riskCategories = unique(reasons.flatMap(reason => reason.riskCategories || []));
+	const riskScore = reasons
+		.map(reason => (reason.riskScore || '').toUpperCase())
+		.filter(score => RISK_SCORES.includes(score))
+		.reduce<string | null>((highest, score) =>
+			highest === null || RISK_SCORES.indexOf(score) > RISK_SCORES.indexOf(highest) ? score : highest, null);
+
+	let verdict: ComplianceVerdict = 'approve';
+	if (actions.some(action => DENY_ACTIONS.includes(action)) || String(result.result).toUpperCase() === 'DENIED') {
+		verdict = 'deny';
+	} else if (actions.includes('REVIEW')) {
+		verdict = 'review';
+	}
+
+	return { verdict, rules, actions, riskCategories, riskScore };
+}
+
+function unique(values: string[]): string[] {
+	return [...new Set(values)];
+}
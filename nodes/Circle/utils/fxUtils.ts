@@ -0,0 +1,67 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * FX Utilities
+ *
+ * Helpers for Circle stablecoin exchange quotes: which currencies trade
+ * against each other and how long a quote stays executable.
+ */
+
+/**
+ * Stablecoins Circle exchanges against each other
+ */
+export const FX_CURRENCIES = ['USDC', 'EURC'] as const;
+
+export type FxCurrency = typeof FX_CURRENCIES[number];
+
+export interface FxQuoteTerms {
+	rate: number | null;
+	expiresAt: string | null;
+	expiresInSeconds: number | null;
+	expired: boolean;
+}
+
+/**
+ * Get the currency a quote converts into
+ *
+ * @param from - Currency being sold
+ * @returns The other stablecoin
+ * @throws Error if the currency can't be exchanged
+ */
+export function getFxCounterCurrency(from: string): FxCurrency {
+	const currency = from.toUpperCase();
+	if (!(FX_CURRENCIES as readonly string[]).includes(currency)) {
+		throw new Error(`Unsupported FX currency: ${from}. Supported: ${FX_CURRENCIES.join(', ')}`);
+	}
+	return currency === 'USDC' ? 'EURC' : 'USDC';
+}
+
+/**
+ * Read the rate and expiry of a Circle FX quote
+ *
+ * @param quote - Quote returned by Circle
+ * @param now - Current time in milliseconds
+ * @returns Rate, expiry timestamp and seconds left (0 once expired)
+ */
+export function getFxQuoteTerms(quote: Record<string, unknown>, now: number = Date.now()): FxQuoteTerms {
+	const rate = quote.rate === undefined || quote.rate === null ? NaN : Number(quote.rate);
+	const expiry = (quote.expiry ?? quote.expiresAt) as string | undefined;
+	const expiresAtMs = expiry ? Date.parse(expiry) : NaN;
+
+	if (Number.isNaN(expiresAtMs)) {
+		return { rate: Number.isNaN(rate) ? null : rate, expiresAt: null, expiresInSeconds: null, expired: false };
+	}
+
+	const expiresInSeconds = Math.max(0, Math.floor((expiresAtMs - now) / 1000));
+	return {
+		rate: Number.isNaN(rate) ? null : rate,
+		expiresAt: new Date(expiresAtMs).toISOString(),
+		expiresInSeconds,
+		expired: expiresAtMs <= now,
+	};
+}
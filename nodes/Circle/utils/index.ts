@@ -14,4 +14,11 @@
 export * from './amountUtils';
 export * from './addressUtils';
 export * from './attestationUtils';
+export * from './retryUtils';
 export * from './signatureUtils';
+export * from './pgpUtils';
+export * from './pollingUtils';
+export * from './complianceUtils';
+export * from './abiUtils';
+export * from './fxUtils';
+export * from './travelRuleUtils';
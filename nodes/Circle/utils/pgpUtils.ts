@@ -0,0 +1,70 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * PGP Utilities
+ *
+ * Client-side encryption of sensitive card data for the Circle Payments API.
+ * Circle publishes a PGP public key (base64 of the armored key) at
+ * /v1/encryption/public; card number and CVV are encrypted with it so they
+ * never leave the workflow in plaintext.
+ */
+
+import { createMessage, encrypt, readKey } from 'openpgp';
+
+/**
+ * Sensitive card fields Circle expects inside `encryptedData`
+ */
+export interface CardSensitiveData {
+	number?: string;
+	cvv?: string;
+}
+
+/**
+ * Decode a Circle PGP public key
+ *
+ * @param publicKey - Base64-encoded armored key, or the armored key itself
+ * @returns Armored public key
+ */
+export function decodePgpPublicKey(publicKey: string): string {
+	const trimmed = publicKey.trim();
+	if (trimmed.startsWith('-----BEGIN PGP PUBLIC KEY BLOCK-----')) {
+		return trimmed;
+	}
+	return Buffer.from(trimmed, 'base64').toString('utf8');
+}
+
+/**
+ * Encrypt card data for Circle
+ *
+ * Only the populated fields are encrypted. Errors never include the card
+ * data itself.
+ *
+ * @param data - Card number and/or CVV
+ * @param publicKey - Circle PGP public key (base64 or armored)
+ * @returns Base64-encoded armored PGP message for `encryptedData`
+ */
+export async function encryptCardData(data: CardSensitiveData, publicKey: string): Promise<string> {
+	const payload: CardSensitiveData = {};
+	if (data.number) payload.number = data.number.replace(/[\s-]/g, '');
+	if (data.cvv) payload.cvv = data.cvv.trim();
+
+	if (!payload.number && !payload.cvv) {
+		throw new Error('Card number or CVV is required for encryption');
+	}
+
+	let encryptionKey;
+	try {
+		encryptionKey = await readKey({ armoredKey: decodePgpPublicKey(publicKey) });
+	} catch {
+		throw new Error('Invalid Circle PGP public key');
+	}
+
+	const message = await createMessage({ text: JSON.stringify(payload) });
+	const armored = await encrypt({ message, encryptionKeys: encryptionKey });
+	return Buffer.from(armored as string, 'utf8').toString('base64');
+}
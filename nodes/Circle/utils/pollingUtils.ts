@@ -0,0 +1,117 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Polling Utilities
+ *
+ * Helpers for waiting on asynchronous Circle resources (payouts, transfers,
+ * payments) until they reach a terminal status.
+ */
+
+import { STATUSES } from '../constants/endpoints';
+import { sleep } from './retryUtils';
+
+/**
+ * Payout statuses after which Circle will not update the payout again
+ */
+export const PAYOUT_TERMINAL_STATUSES = [STATUSES.payout.COMPLETE, STATUSES.payout.FAILED, STATUSES.payout.RETURNED];
+
+/**
+ * Transfer statuses after which Circle will not update the transfer again
+ */
+export const TRANSFER_TERMINAL_STATUSES = [STATUSES.transfer.COMPLETE, STATUSES.transfer.FAILED];
+
+/**
+ * Payment statuses that end a wait. A `confirmed` payment is accepted and
+ * only moves on to `paid` at settlement, which can be days later for cards.
+ * `action_required` payments still wait on the cardholder.
+ */
+export const PAYMENT_TERMINAL_STATUSES = [STATUSES.payment.CONFIRMED, STATUSES.payment.PAID, STATUSES.payment.FAILED];
+
+/**
+ * Payment statuses after which Circle will not update the payment again
+ */
+export const PAYMENT_SETTLED_STATUSES = [STATUSES.payment.PAID, STATUSES.payment.FAILED];
+
+/**
+ * Terminal statuses that mean the money did not arrive
+ */
+export const FAILURE_STATUSES = [STATUSES.transfer.FAILED, STATUSES.payout.RETURNED];
+
+/**
+ * Raised when a resource is still not done at the poll timeout. Carries the
+ * last state fetched so callers can report what was created.
+ */
+export class PollTimeoutError<T = unknown> extends Error {
+	constructor(message: string, public readonly lastResult: T) {
+		super(message);
+		this.name = 'PollTimeoutError';
+	}
+}
+
+export interface PollOptions {
+	/** Milliseconds between polls */
+	interval: number;
+	/** Milliseconds to wait in total before giving up */
+	timeout: number;
+	/** Factor the interval grows by after each poll (default 1, no backoff) */
+	backoff?: number;
+	/** Upper bound for the interval when backing off */
+	maxInterval?: number;
+	/** Sleep function (injectable for testing) */
+	wait?: (ms: number) => Promise<void>;
+	/** Clock (injectable for testing) */
+	now?: () => number;
+}
+
+/**
+ * Fetch a resource repeatedly until a condition holds
+ *
+ * The first fetch happens immediately. Fetch errors are not caught, so
+ * the client's own retry handling applies to each poll.
+ *
+ * @param fetch - Loads the current state of the resource
+ * @param isDone - Returns true once the state is final
+ * @param options - Poll interval, backoff and timeout
+ * @returns The first state for which isDone returned true
+ * @throws PollTimeoutError with the last fetched state if the timeout elapses first
+ */
+export async function pollUntil<T>(
+	fetch: () => Promise<T>,
+	isDone: (result: T) => boolean,
+	options: PollOptions,
+): Promise<T> {
+	const wait = options.wait ?? sleep;
+	const now = options.now ?? Date.now;
+	const deadline = now() + options.timeout;
+	let interval = options.interval;
+
+	for (;;) {
+		const result = await fetch();
+		if (isDone(result)) {
+			return result;
+		}
+
+		const remaining = deadline - now();
+		if (remaining <= 0) {
+			throw new PollTimeoutError(`Timed out after ${Math.round(options.timeout / 1000)}s waiting for a terminal status`, result);
+		}
+		await wait(Math.min(interval, remaining));
+		interval = Math.min(interval * (options.backoff ?? 1), options.maxInterval ?? Infinity);
+	}
+}
+
+/**
+ * Check if a Circle resource has reached one of the given statuses
+ *
+ * @param result - Resource with a `status` field
+ * @param statuses - Terminal statuses
+ * @returns True if the resource status is terminal
+ */
+export function hasTerminalStatus(result: { status?: unknown }, statuses: string[]): boolean {
+	return typeof result.status === 'string' && statuses.includes(result.status);
+}
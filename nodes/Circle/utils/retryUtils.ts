@@ -0,0 +1,106 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Retry Utilities
+ *
+ * Backoff and retry decision helpers used by the Circle API client
+ * when requests are rate limited or hit transient failures.
+ */
+
+/**
+ * Network error codes that indicate a transient failure
+ */
+export const RETRYABLE_NETWORK_CODES = [
+	'ECONNABORTED',
+	'ECONNRESET',
+	'ETIMEDOUT',
+	'EAI_AGAIN',
+	'ENETUNREACH',
+];
+
+/**
+ * Check if an HTTP status code is worth retrying
+ *
+ * @param status - HTTP status code
+ * @returns True for 429 and 5xx responses
+ */
+export function isRetryableStatus(status: number): boolean {
+	return status === 429 || (status >= 500 && status <= 599);
+}
+
+/**
+ * Check if a network error code is worth retrying
+ *
+ * @param code - Error code from the HTTP client (e.g. ECONNRESET)
+ * @returns True if the error is a transient network failure
+ */
+export function isRetryableNetworkError(code?: string): boolean {
+	return code !== undefined && RETRYABLE_NETWORK_CODES.includes(code);
+}
+
+/**
+ * Compute a jittered exponential backoff delay
+ *
+ * Uses "full jitter": a random delay between 0 and the exponential ceiling,
+ * so concurrent workers don't retry in lockstep.
+ *
+ * @param attempt - Retry attempt number (1 for the first retry)
+ * @param baseDelay - Base delay in milliseconds
+ * @param maxDelay - Upper bound for the delay in milliseconds
+ * @param random - Random source in [0, 1) (injectable for testing)
+ * @returns Delay in milliseconds
+ */
+export function computeBackoffDelay(
+	attempt: number,
+	baseDelay: number,
+	maxDelay: number,
+	random: () => number = Math.random,
+): number {
+	const ceiling = Math.min(maxDelay, baseDelay * Math.pow(2, Math.max(0, attempt - 1)));
+	return Math.floor(random() * ceiling);
+}
+
+/**
+ * Parse a Retry-After header value
+ *
+ * The header may hold either a number of seconds or an HTTP date.
+ *
+ * @param value - Raw header value
+ * @param now - Current time in milliseconds (injectable for testing)
+ * @returns Delay in milliseconds, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | undefined {
+	if (typeof value !== 'string' && typeof value !== 'number') {
+		return undefined;
+	}
+
+	const raw = String(value).trim();
+	if (raw === '') {
+		return undefined;
+	}
+
+	if (/^\d+(\.\d+)?$/.test(raw)) {
+		return Math.ceil(parseFloat(raw) * 1000);
+	}
+
+	const date = Date.parse(raw);
+	if (isNaN(date)) {
+		return undefined;
+	}
+
+	return Math.max(0, date - now);
+}
+
+/**
+ * Sleep for the given number of milliseconds
+ *
+ * @param ms - Milliseconds to wait
+ */
+export function sleep(ms: number): Promise<void> {
+	return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -64,21 +64,79 @@ export function generateIdempotencyKey(prefix?: string): string {
 	return prefix ? `${prefix}-${uuid}` : uuid;
 }
 
+/**
+ * Namespace UUID for idempotency keys derived by this package
+ */
+export const IDEMPOTENCY_KEY_NAMESPACE = '253511ff-456c-42db-80c6-d3371fad1780';
+
+/**
+ * Check that a value is a UUID, the only idempotency key format Circle accepts
+ * 
+ * @param value - Value to check
+ * @returns True for a UUID such as 1f8bdfde-7b62-4d5a-a1f8-5c2a8f8c1d2e
+ */
+export function isValidUuid(value: string): boolean {
+	return /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/.test(value);
+}
+
+/**
+ * Generate a name-based UUID (version 5, SHA-1) as defined in RFC 4122
+ * 
+ * @param name - Name to hash
+ * @param namespace - Namespace UUID
+ * @returns UUIDv5 string
+ */
+export function generateUuidV5(name: string, namespace: string): string {
+	const namespaceHex = namespace.replace(/-/g, '');
+	if (!/^[a-fA-F0-9]{32}$/.test(namespaceHex)) {
+		throw new Error(`Invalid namespace UUID: ${namespace}`);
+	}
+	
+	const hash = crypto
+		.createHash('sha1')
+		.update(Buffer.from(namespaceHex, 'hex'))
+		.update(name, 'utf8')
+		.digest();
+	
+	const bytes = hash.subarray(0, 16);
+	bytes[6] = (bytes[6] & 0x0f) | 0x50;
+	bytes[8] = (bytes[8] & 0x3f) | 0x80;
+	
+	const hex = bytes.toString('hex');
+	return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Derive a deterministic idempotency key
+ * 
+ * The same operation, values and prefix always produce the same UUIDv5, so
+ * a re-executed workflow sends the same key and Circle deduplicates the call.
+ * Different operations keyed on the same values get different keys.
+ * 
+ * @param operation - Operation the key is for (e.g. "payouts.createPayout")
+ * @param values - Values identifying the operation (e.g. invoice ID, amount)
+ * @param prefix - Optional prefix that namespaces the keys
+ * @returns UUIDv5 idempotency key
+ */
+export function deriveIdempotencyKey(operation: string, values: unknown[], prefix?: string): string {
+	return generateUuidV5(`${prefix || ''}:${operation}:${JSON.stringify(values)}`, IDEMPOTENCY_KEY_NAMESPACE);
+}
+
 /**
  * Encrypt entity secret
  * 
  * Circle requires certain sensitive operations to use an encrypted
  * entity secret for additional security.
  * 
- * @param entitySecret - The plain entity secret
+ * @param entitySecret - The plain entity secret (string or raw bytes)
  * @param publicKeyPem - Circle's public key in PEM format
  * @returns Base64 encoded encrypted secret
  */
 export function encryptEntitySecret(
-	entitySecret: string,
+	entitySecret: string | Buffer,
 	publicKeyPem: string,
 ): string {
-	const buffer = Buffer.from(entitySecret, 'utf8');
+	const buffer = Buffer.isBuffer(entitySecret) ? entitySecret : Buffer.from(entitySecret, 'utf8');
 	
 	const encrypted = crypto.publicEncrypt(
 		{
@@ -92,19 +150,33 @@ export function encryptEntitySecret(
 	return encrypted.toString('base64');
 }
 
+/**
+ * Generate a new entity secret for Programmable Wallets
+ * 
+ * @returns 32 random bytes as a 64-character hex string
+ */
+export function generateEntitySecret(): string {
+	return crypto.randomBytes(32).toString('hex');
+}
+
 /**
  * Generate entity secret ciphertext for Programmable Wallets
  * 
+ * The 32 secret bytes are encrypted with the entity public key using
+ * RSA-OAEP with SHA-256. OAEP padding is randomized, so every call
+ * produces a new ciphertext, as Circle requires for each request.
+ * 
  * @param entitySecret - The plain entity secret (hex string)
- * @returns Encrypted ciphertext
+ * @param publicKeyPem - Entity public key from Circle in PEM format
+ * @returns Base64 encoded ciphertext
  */
-export function generateEntitySecretCiphertext(entitySecret: string): string {
+export function generateEntitySecretCiphertext(entitySecret: string, publicKeyPem: string): string {
 	// Entity secret should be a 32-byte hex string
 	if (!/^[a-fA-F0-9]{64}$/.test(entitySecret)) {
 		throw new Error('Entity secret must be a 64-character hex string (32 bytes)');
 	}
 	
-	return entitySecret; // In production, this would be encrypted with Circle's public key
+	return encryptEntitySecret(hexToBytes(entitySecret), publicKeyPem);
 }
 
 /**
@@ -302,3 +374,18 @@ export function isJwtExpired(token: string): boolean {
 		return true;
 	}
 }
+
+/**
+ * Get the expiry time of a JWT token
+ * 
+ * @param token - JWT token string
+ * @returns Expiry date, or null if the token has no exp claim or cannot be parsed
+ */
+export function getJwtExpiry(token: string): Date | null {
+	try {
+		const exp = parseJwt(token).exp;
+		return typeof exp === 'number' ? new Date(exp * 1000) : null;
+	} catch {
+		return null;
+	}
+}
@@ -0,0 +1,135 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Travel Rule Utilities
+ *
+ * Builds the originator and beneficiary identity blocks Circle expects on
+ * transfers and payouts, and checks that transfers at or above an optional
+ * Travel Rule threshold carry every required field before they are sent.
+ */
+
+export type TravelRuleRole = 'originator' | 'beneficiary';
+
+export interface TravelRuleAddress {
+	line1?: string;
+	line2?: string;
+	city?: string;
+	district?: string;
+	postalCode?: string;
+	country?: string;
+}
+
+export interface TravelRuleIdentity {
+	type: 'individual' | 'business';
+	name: string;
+	addresses: TravelRuleAddress[];
+}
+
+/**
+ * Required fields are not checked unless a threshold is set. The US FinCEN
+ * threshold for transmitting Travel Rule information is 3000 USD.
+ */
+export const DEFAULT_TRAVEL_RULE_THRESHOLD = -1;
+
+/**
+ * Fields that must be present at or above the threshold, by role
+ */
+const REQUIRED_FIELDS: Record<TravelRuleRole, string[]> = {
+	originator: ['type', 'name', 'addresses[0].line1', 'addresses[0].city', 'addresses[0].postalCode', 'addresses[0].country'],
+	beneficiary: ['name'],
+};
+
+/**
+ * Build an identity block from flat form fields
+ *
+ * @param fields - Identity fields as entered in the node (name, line1, city, ...)
+ * @returns Identity without empty fields, or undefined when every field is empty
+ */
+export function buildTravelRuleIdentity(fields: Record<string, unknown> | undefined): TravelRuleIdentity | undefined {
+	const value = (name: string) => String(fields?.[name] ?? '').trim();
+	const hasAny = ['name', 'line1', 'line2', 'city', 'district', 'postalCode', 'country'].some(name => value(name));
+	if (!hasAny) {
+		return undefined;
+	}
+
+	// Only the address fields that were entered are sent
+	const address: TravelRuleAddress = {};
+	for (const name of ['line1', 'line2', 'city', 'district', 'postalCode', 'country'] as const) {
+		if (value(name)) {
+			address[name] = name === 'country' ? value(name).toUpperCase() : value(name);
+		}
+	}
+
+	return {
+		type: value('type') === 'business' ? 'business' : 'individual',
+		name: value('name'),
+		addresses: Object.keys(address).length ? [address] : [],
+	};
+}
+
+/**
+ * Check whether an amount is subject to the Travel Rule
+ *
+ * @param amount - Transfer amount
+ * @param threshold - Threshold in the same currency; negative disables the check
+ */
+export function isTravelRuleRequired(amount: string | number, threshold: number): boolean {
+	const value = typeof amount === 'string' ? parseFloat(amount) : amount;
+	return threshold >= 0 && !Number.isNaN(value) && value >= threshold;
+}
+
+/**
+ * List required fields missing from an identity
+ *
+ * @param identity - Identity block, or undefined if none was given
+ * @param role - Whether the identity is the originator or the beneficiary
+ * @returns Missing field paths, e.g. ["name", "addresses[0].country"]
+ */
+export function getMissingTravelRuleFields(identity: TravelRuleIdentity | undefined, role: TravelRuleRole): string[] {
+	return REQUIRED_FIELDS[role].filter(path => {
+		const match = path.match(/^addresses\[0\]\.(\w+)$/);
+		const value = match
+			? identity?.addresses[0]?.[match[1] as keyof TravelRuleAddress]
+			: identity?.[path as keyof TravelRuleIdentity];
+		return !value;
+	});
+}
+
+/**
+ * Validate originator and beneficiary identities for a transfer
+ *
+ * @param amount - Transfer amount
+ * @param threshold - Travel Rule threshold
+ * @param identities - Originator and beneficiary identity blocks
+ * @throws Error naming every missing or malformed field
+ */
+export function validateTravelRule(
+	amount: string | number,
+	threshold: number,
+	identities: { originator?: TravelRuleIdentity; beneficiary?: TravelRuleIdentity },
+): void {
+	const problems: string[] = [];
+
+	for (const role of ['originator', 'beneficiary'] as const) {
+		const identity = identities[role];
+		const country = identity?.addresses[0]?.country;
+		if (country && !/^[A-Z]{2}$/.test(country)) {
+			problems.push(`${role} country must be an ISO 3166-1 alpha-2 code such as US or DE, got "${country}"`);
+		}
+		if (isTravelRuleRequired(amount, threshold)) {
+			const missing = getMissingTravelRuleFields(identity, role);
+			if (missing.length) {
+				problems.push(`${role} is missing ${missing.join(', ')}`);
+			}
+		}
+	}
+
+	if (problems.length) {
+		throw new Error(`Travel Rule identity incomplete for amount ${amount} (threshold ${threshold}): ${problems.join('; ')}`);
+	}
+}
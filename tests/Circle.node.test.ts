@@ -0,0 +1,122 @@
+import type { IDataObject, IExecuteFunctions, ILoadOptionsFunctions, INodeProperties } from 'n8n-workflow';
+import { Circle } from '../nodes/Circle/Circle.node';
+import { CircleApiClient } from '../nodes/Circle/transport/circleApi';
+import type { Transfer } from '../nodes/Circle/transport/models';
+import * as retryUtils from '../nodes/Circle/utils/retryUtils';
+
+const node = new Circle();
+const properties = node.description.properties;
+
+/**
+ * Minimal execute context. Like n8n, only parameters the editor shows for
+ * the given values can be read; missing ones fall back to their default.
+ */
+function executeContext(params: IDataObject, continueOnFail = false): IExecuteFunctions {
+	const findVisible = (name: string) => properties.find(property => property.name === name && isVisible(property));
+	const valueOf = (name: string): unknown => (name in params ? params[name] : findVisible(name)?.default);
+	const isVisible = (property: INodeProperties): boolean => {
+		const { show = {}, hide = {} } = property.displayOptions ?? {};
+		return Object.entries(show).every(([key, values]) => key.startsWith('/') || (values as unknown[]).includes(valueOf(key)))
+			&& !Object.entries(hide).some(([key, values]) => !key.startsWith('/') && (values as unknown[]).includes(valueOf(key)));
+	};
+
+	return {
+		getInputData: () => [{ json: {} }],
+		getNode: () => ({ name: 'Circle', type: 'n8n-nodes-circle.circle', typeVersion: 1, position: [0, 0], parameters: {} }),
+		continueOnFail: () => continueOnFail,
+		getCredentials: async () => ({ apiKey: 'TEST_API_KEY:node:test', environment: 'sandbox' }),
+		getNodeParameter(...args: unknown[]) {
+			const [name, , fallback, options] = args as [string, number, unknown, { extractValue?: boolean } | undefined];
+			const property = findVisible(name);
+			if (!property) {
+				if (args.length >= 3) return fallback;
+				throw new Error(`Could not get parameter "${name}"`);
+			}
+			const value = name in params ? params[name] : property.default;
+			const locator = value as { __rl?: boolean; value?: unknown } | undefined;
+			return options?.extractValue && locator?.__rl ? locator.value : value;
+		},
+	} as unknown as IExecuteFunctions;
+}
+
+const TRANSFER_PARAMS: IDataObject = {
+	resource: 'accounts',
+	operation: 'createTransfer',
+	sourceId: { __rl: true, mode: 'id', value: '1000216185' },
+	destinationId: '0x8381470ED67C3802402dbbFa0058E8871F017A6F',
+	chain: 'ETH',
+	amount: '5000.00',
+};
+
+function transfer(status: string): Transfer {
+	return {
+		id: 't1',
+		source: { type: 'wallet', id: '1000216185' },
+		destination: { type: 'blockchain', address: TRANSFER_PARAMS.destinationId, chain: 'ETH' },
+		amount: { amount: '5000.00', currency: 'USDC' },
+		status,
+	};
+}
+
+describe('Circle node', () => {
+	afterEach(() => jest.restoreAllMocks());
+
+	describe('Accounts Create Transfer', () => {
+		it('should send the amount entered on the node', async () => {
+			const createTransfer = jest.spyOn(CircleApiClient.prototype, 'createTransfer').mockResolvedValue(transfer('pending'));
+
+			const [[item]] = await node.execute.call(executeContext(TRANSFER_PARAMS));
+
+			expect(createTransfer).toHaveBeenCalledWith(expect.objectContaining({
+				source: { type: 'wallet', id: '1000216185' },
+				amount: { amount: '5000.00', currency: 'USDC' },
+			}), expect.any(String));
+			expect(item.json.status).toBe('pending');
+		});
+
+		it('should check Travel Rule identities at or above the threshold', async () => {
+			const createTransfer = jest.spyOn(CircleApiClient.prototype, 'createTransfer');
+
+			await expect(node.execute.call(executeContext({ ...TRANSFER_PARAMS, travelRuleThreshold: 3000 })))
+				.rejects.toThrow('Travel Rule identity incomplete for amount 5000.00');
+			expect(createTransfer).not.toHaveBeenCalled();
+		});
+
+		it('should only send Travel Rule identities when the check applies', async () => {
+			const createTransfer = jest.spyOn(CircleApiClient.prototype, 'createTransfer').mockResolvedValue(transfer('pending'));
+			const travelRule = { originator: { name: 'Acme Corp', line1: '100 Main St', city: 'Boston', postalCode: '02110', country: 'US' }, beneficiary: { name: 'Jane Doe', city: 'Berlin' } };
+
+			await node.execute.call(executeContext({ ...TRANSFER_PARAMS, travelRule, travelRuleThreshold: 10000 }));
+			await node.execute.call(executeContext({ ...TRANSFER_PARAMS, travelRule, travelRuleThreshold: 3000 }));
+
+			expect(createTransfer.mock.calls[0][0].source).not.toHaveProperty('identities');
+			expect(createTransfer.mock.calls[0][0].destination).not.toHaveProperty('identities');
+			expect(createTransfer.mock.calls[1][0].destination.identities).toEqual([{ type: 'individual', name: 'Jane Doe', addresses: [{ city: 'Berlin' }] }]);
+		});
+
+		it('should wait for the transfer to reach a final status', async () => {
+			jest.spyOn(retryUtils, 'sleep').mockResolvedValue();
+			jest.spyOn(CircleApiClient.prototype, 'createTransfer').mockResolvedValue(transfer('pending'));
+			const getTransfer = jest.spyOn(CircleApiClient.prototype, 'getTransfer')
+				.mockResolvedValueOnce(transfer('pending'))
+				.mockResolvedValueOnce(transfer('complete'));
+
+			const [[item]] = await node.execute.call(executeContext({ ...TRANSFER_PARAMS, waitForCompletion: true }));
+
+			expect(getTransfer).toHaveBeenCalledTimes(2);
+			expect(item.json).toMatchObject({ id: 't1', status: 'complete' });
+			expect(item.json.elapsedSeconds).toEqual(expect.any(Number));
+		});
+	});
+
+	describe('searchProgrammableWallets', () => {
+		it('should explain how to pick a user wallet when the user token is an expression', async () => {
+			const context = {
+				getNode: () => ({ name: 'Circle' }),
+				getCurrentNodeParameter: (name: string) => ({ resource: 'userWallets', userToken: '={{ $json.userToken }}' })[name],
+			} as unknown as ILoadOptionsFunctions;
+
+			await expect(node.methods.listSearch.searchProgrammableWallets.call(context)).rejects.toThrow('User Token entered as a fixed value');
+		});
+	});
+});
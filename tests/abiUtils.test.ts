@@ -0,0 +1,108 @@
+import { ethers } from 'ethers';
+import {
+	decodeEventLog,
+	decodeFunctionResult,
+	encodeConstructorArgs,
+	encodeFunctionCall,
+	getAbiFunctionSignature,
+	parseAbiParameters,
+	toJsonSafe,
+} from '../nodes/Circle/utils/abiUtils';
+
+const ABI = JSON.stringify([
+	'constructor(string name, uint8 decimals)',
+	'function balanceOf(address account) view returns (uint256)',
+	'function transfer(address to, uint256 amount) returns (bool)',
+	'function mint(address to, uint256 amount)',
+	'function mint(address to)',
+	'event Transfer(address indexed from, address indexed to, uint256 value)',
+].map(fragment => JSON.parse(ethers.Fragment.from(fragment).format('json'))));
+
+const ALICE = '0x1111111111111111111111111111111111111111';
+const BOB = '0x2222222222222222222222222222222222222222';
+
+describe('ABI Utilities', () => {
+	describe('getAbiFunctionSignature', () => {
+		it('should resolve function names to signatures', () => {
+			expect(getAbiFunctionSignature(ABI, 'transfer')).toBe('transfer(address,uint256)');
+		});
+
+		it('should accept full signatures for overloaded functions', () => {
+			expect(getAbiFunctionSignature(ABI, 'mint(address)')).toBe('mint(address)');
+			expect(() => getAbiFunctionSignature(ABI, 'mint')).toThrow('overloaded');
+		});
+
+		it('should normalize a signature when no ABI is given', () => {
+			expect(getAbiFunctionSignature(undefined, 'function transfer(address to, uint256 amount)')).toBe('transfer(address,uint256)');
+		});
+
+		it('should reject unknown functions and invalid ABIs', () => {
+			expect(() => getAbiFunctionSignature(ABI, 'burn')).toThrow('not found in ABI');
+			expect(() => getAbiFunctionSignature('{', 'transfer')).toThrow('ABI must be valid JSON');
+		});
+
+		it('should only report overloads for ambiguous names', () => {
+			expect(() => getAbiFunctionSignature(ABI, 'burn')).not.toThrow('overloaded');
+			expect(() => getAbiFunctionSignature(ABI, 'mint(address')).toThrow('invalid function fragment');
+		});
+	});
+
+	describe('parseAbiParameters', () => {
+		it('should parse JSON arrays', () => {
+			expect(parseAbiParameters('["0xabc", "100"]')).toEqual(['0xabc', '100']);
+			expect(parseAbiParameters('')).toEqual([]);
+		});
+
+		it('should reject anything else', () => {
+			expect(() => parseAbiParameters('{"to": "0xabc"}')).toThrow('JSON array');
+		});
+	});
+
+	describe('encodeFunctionCall', () => {
+		it('should encode calls', () => {
+			const data = encodeFunctionCall(ABI, 'transfer', [BOB, '1000000']);
+			expect(data.startsWith('0xa9059cbb')).toBe(true);
+		});
+
+		it('should name the function when parameters are invalid', () => {
+			expect(() => encodeFunctionCall(ABI, 'transfer', ['not-an-address', '1'])).toThrow('Invalid parameters for transfer(address,uint256)');
+		});
+	});
+
+	describe('encodeConstructorArgs', () => {
+		it('should validate constructor parameters', () => {
+			expect(encodeConstructorArgs(ABI, ['Token', 6])).toMatch(/^0x/);
+			expect(() => encodeConstructorArgs(ABI, ['Token'])).toThrow('Invalid constructor parameters');
+		});
+	});
+
+	describe('decodeFunctionResult', () => {
+		it('should decode outputs with bigints as strings', () => {
+			const data = ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [123456789012345678901234567890n]);
+			expect(decodeFunctionResult(ABI, 'balanceOf', data)).toEqual(['123456789012345678901234567890']);
+		});
+	});
+
+	describe('decodeEventLog', () => {
+		it('should decode matching logs', () => {
+			const iface = new ethers.Interface(JSON.parse(ABI));
+			const log = iface.encodeEventLog('Transfer', [ALICE, BOB, 500n]);
+
+			expect(decodeEventLog(ABI, log)).toEqual({
+				name: 'Transfer',
+				signature: 'Transfer(address,address,uint256)',
+				args: { from: ALICE, to: BOB, value: '500' },
+			});
+		});
+
+		it('should return null for unknown events', () => {
+			expect(decodeEventLog(ABI, { topics: [ethers.id('Approval(address,address,uint256)')], data: '0x' })).toBeNull();
+		});
+	});
+
+	describe('toJsonSafe', () => {
+		it('should convert nested bigints', () => {
+			expect(toJsonSafe([1n, ['a', 2n]])).toEqual(['1', ['a', '2']]);
+		});
+	});
+});
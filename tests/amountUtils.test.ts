@@ -6,6 +6,7 @@ import {
 	validateAmount,
 	roundAmount,
 	sumAmounts,
+	normalizeMoneyAmount,
 	STABLECOIN_DECIMALS,
 } from '../nodes/Circle/utils/amountUtils';
 
@@ -104,6 +105,23 @@ describe('Amount Utilities', () => {
 		});
 	});
 
+	describe('normalizeMoneyAmount', () => {
+		it('should normalize amounts to decimal strings', () => {
+			expect(normalizeMoneyAmount('100')).toBe('100.00');
+			expect(normalizeMoneyAmount(' 12.500 ')).toBe('12.50');
+			expect(normalizeMoneyAmount('007.1')).toBe('7.10');
+			expect(normalizeMoneyAmount('0.000001')).toBe('0.000001');
+			expect(normalizeMoneyAmount(3.1)).toBe('3.10');
+			expect(normalizeMoneyAmount('-5')).toBe('-5.00');
+		});
+
+		it('should reject non-decimal amounts', () => {
+			expect(() => normalizeMoneyAmount('1e3')).toThrow('Invalid money amount: 1e3');
+			expect(() => normalizeMoneyAmount('')).toThrow('Invalid money amount');
+			expect(() => normalizeMoneyAmount(NaN)).toThrow('Invalid money amount');
+		});
+	});
+
 	describe('constants', () => {
 		it('should have correct decimals constant', () => {
 			expect(STABLECOIN_DECIMALS).toBe(6);
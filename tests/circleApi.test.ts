@@ -0,0 +1,245 @@
+import { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { CircleApiClient, PaginationParams } from '../nodes/Circle/transport/circleApi';
+import { RateLimiter, resetRateLimiters } from '../nodes/Circle/transport/rateLimiter';
+import * as retryUtils from '../nodes/Circle/utils/retryUtils';
+
+type Reply = { status: number; data?: unknown; headers?: Record<string, string> };
+
+function makeRecords(count: number, offset = 0): Array<{ id: string }> {
+	return Array.from({ length: count }, (_, index) => ({ id: `id-${offset + index}` }));
+}
+
+/**
+ * Answer a client's requests with the given replies, in order, through a
+ * stub axios adapter. Returns the configs of the requests that were sent.
+ */
+function stubAdapter(client: CircleApiClient, replies: Reply[]): InternalAxiosRequestConfig[] {
+	const requests: InternalAxiosRequestConfig[] = [];
+	(client as unknown as { client: AxiosInstance }).client.defaults.adapter = async config => {
+		requests.push({ ...config });
+		const reply = replies[requests.length - 1];
+		const response: AxiosResponse = { status: reply.status, statusText: '', data: reply.data ?? { data: {} }, headers: reply.headers ?? {}, config };
+		if (reply.status >= 400) {
+			throw new AxiosError(`Request failed with status code ${reply.status}`, 'ERR_BAD_RESPONSE', config, undefined, response);
+		}
+		return response;
+	};
+	return requests;
+}
+
+describe('CircleApiClient', () => {
+	const client = new CircleApiClient({ apiKey: 'TEST_API_KEY:abc:def', environment: 'sandbox' });
+
+	describe('paginate', () => {
+		it('should follow pageAfter cursors until a short page is returned', async () => {
+			const calls: PaginationParams[] = [];
+			const pages = [makeRecords(50), makeRecords(50, 50), makeRecords(7, 100)];
+			const fetchPage = async (params: PaginationParams) => {
+				calls.push(params);
+				return pages[calls.length - 1];
+			};
+
+			const results = await client.paginate(fetchPage, { returnAll: true });
+
+			expect(results).toHaveLength(107);
+			expect(calls).toEqual([
+				{ pageSize: 50 },
+				{ pageSize: 50, pageAfter: 'id-49' },
+				{ pageSize: 50, pageAfter: 'id-99' },
+			]);
+		});
+
+		it('should stop on an empty page', async () => {
+			const pages = [makeRecords(50), []];
+			let call = 0;
+			const results = await client.paginate(async () => pages[call++], { returnAll: true });
+
+			expect(results).toHaveLength(50);
+			expect(call).toBe(2);
+		});
+
+		it('should respect the limit when returnAll is off', async () => {
+			const calls: PaginationParams[] = [];
+			const fetchPage = async (params: PaginationParams) => {
+				calls.push(params);
+				return makeRecords(params.pageSize as number, calls.length * 100);
+			};
+
+			const results = await client.paginate(fetchPage, { returnAll: false, limit: 70 });
+
+			expect(results).toHaveLength(70);
+			expect(calls.map(params => params.pageSize)).toEqual([50, 20]);
+		});
+
+		it('should cap each request at the requested page size', async () => {
+			const calls: PaginationParams[] = [];
+			const fetchPage = async (params: PaginationParams) => {
+				calls.push(params);
+				return makeRecords(params.pageSize as number, calls.length * 100);
+			};
+
+			const results = await client.paginate(fetchPage, { returnAll: false, limit: 25, pageSize: 10 });
+
+			expect(results).toHaveLength(25);
+			expect(calls.map(params => params.pageSize)).toEqual([10, 10, 5]);
+		});
+
+		it('should read the cursor from the given field', async () => {
+			const calls: PaginationParams[] = [];
+			const pages = [
+				Array.from({ length: 50 }, (_, index) => ({ walletId: `w-${index}` })),
+				[{ walletId: 'w-50' }],
+			];
+			const fetchPage = async (params: PaginationParams) => {
+				calls.push(params);
+				return pages[calls.length - 1];
+			};
+
+			const results = await client.paginate(fetchPage, { returnAll: true, cursorField: 'walletId' });
+
+			expect(results).toHaveLength(51);
+			expect(calls).toEqual([{ pageSize: 50 }, { pageSize: 50, pageAfter: 'w-49' }]);
+		});
+	});
+
+	describe('retries', () => {
+		let sleep: jest.SpyInstance;
+		let acquire: jest.SpyInstance;
+
+		beforeEach(() => {
+			resetRateLimiters();
+			sleep = jest.spyOn(retryUtils, 'sleep').mockResolvedValue();
+			acquire = jest.spyOn(RateLimiter.prototype, 'acquire');
+		});
+
+		afterEach(() => {
+			jest.restoreAllMocks();
+		});
+
+		it('should retry a POST carrying an idempotency key with the same key', async () => {
+			const retrying = new CircleApiClient({ apiKey: 'TEST_API_KEY:retry:post', environment: 'sandbox' });
+			const requests = stubAdapter(retrying, [{ status: 503 }, { status: 201, data: { data: { id: 'p1' } } }]);
+
+			await expect(retrying.post('/v1/payouts', { amount: '1.00' }, { idempotencyKey: 'key-1' })).resolves.toEqual({ id: 'p1' });
+			expect(requests).toHaveLength(2);
+			expect(requests.map(request => request.headers['X-Idempotency-Key'])).toEqual(['key-1', 'key-1']);
+		});
+
+		it('should not retry a POST without an idempotency key', async () => {
+			const retrying = new CircleApiClient({ apiKey: 'TEST_API_KEY:retry:nokey', environment: 'sandbox' });
+			const requests = stubAdapter(retrying, [{ status: 503 }, { status: 201 }]);
+
+			await expect(retrying.request('POST', '/v1/payouts', { body: { amount: '1.00' } })).rejects.toThrow();
+			expect(requests).toHaveLength(1);
+		});
+
+		it('should retry a custom call with the idempotency key merged into its body', async () => {
+			const retrying = new CircleApiClient({ apiKey: 'TEST_API_KEY:retry:custom', environment: 'sandbox' });
+			const requests = stubAdapter(retrying, [{ status: 503 }, { status: 201, data: { data: { id: 'x1' } } }]);
+			const key = '1f8bdfde-7b62-4d5a-a1f8-5c2a8f8c1d2e';
+
+			await retrying.request('POST', '/v1/payouts', { body: { amount: '1.00' }, useIdempotency: true, idempotencyKey: key });
+			expect(requests).toHaveLength(2);
+			expect(requests.map(request => JSON.parse(request.data))).toEqual([
+				{ amount: '1.00', idempotencyKey: key },
+				{ amount: '1.00', idempotencyKey: key },
+			]);
+		});
+
+		it('should not retry custom PUT or PATCH calls without a key in the body', async () => {
+			const retrying = new CircleApiClient({ apiKey: 'TEST_API_KEY:retry:put', environment: 'sandbox' });
+			const requests = stubAdapter(retrying, [{ status: 503 }, { status: 503 }, { status: 200 }]);
+
+			await expect(retrying.request('PUT', '/v1/cards/c1', { body: { expMonth: 1 } })).rejects.toThrow();
+			await expect(retrying.request('PATCH', '/v1/cards/c1', { body: [1, 2], useIdempotency: true })).rejects.toThrow();
+			expect(requests).toHaveLength(2);
+			expect(JSON.parse(requests[1].data)).toEqual([1, 2]);
+		});
+
+		it('should wait for Retry-After on 429', async () => {
+			const retrying = new CircleApiClient({ apiKey: 'TEST_API_KEY:retry:429', environment: 'sandbox' });
+			const requests = stubAdapter(retrying, [{ status: 429, headers: { 'retry-after': '2' } }, { status: 200, data: { data: [] } }]);
+
+			await retrying.get('/v1/transfers');
+			expect(requests).toHaveLength(2);
+			expect(sleep).toHaveBeenCalledWith(2000);
+		});
+
+		it('should take a rate limiter token before each retry', async () => {
+			const retrying = new CircleApiClient({ apiKey: 'TEST_API_KEY:retry:limiter', environment: 'sandbox' });
+			stubAdapter(retrying, [{ status: 502 }, { status: 503 }, { status: 200, data: { data: [] } }]);
+
+			await retrying.get('/v1/transfers');
+			expect(acquire).toHaveBeenCalledTimes(3);
+		});
+
+		it('should send a fresh entity secret ciphertext with each attempt', async () => {
+			const retrying = new CircleApiClient({ apiKey: 'TEST_API_KEY:retry:w3s', environment: 'sandbox', entitySecret: 'a'.repeat(64) });
+			jest.spyOn(retrying, 'getEntitySecretCiphertext').mockResolvedValueOnce('ciphertext-1').mockResolvedValueOnce('ciphertext-2');
+			const requests = stubAdapter(retrying, [{ status: 503 }, { status: 201, data: { data: { walletSet: { id: 'ws1' } } } }]);
+
+			await expect(retrying.createWalletSet({ name: 'Treasury' }, 'key-1')).resolves.toEqual({ id: 'ws1' });
+			expect(requests.map(request => JSON.parse(request.data))).toEqual([
+				{ name: 'Treasury', entitySecretCiphertext: 'ciphertext-1', idempotencyKey: 'key-1' },
+				{ name: 'Treasury', entitySecretCiphertext: 'ciphertext-2', idempotencyKey: 'key-1' },
+			]);
+		});
+
+		it('should give up after maxRetries', async () => {
+			const retrying = new CircleApiClient({ apiKey: 'TEST_API_KEY:retry:max', environment: 'sandbox', maxRetries: 1 });
+			const requests = stubAdapter(retrying, [{ status: 503 }, { status: 503 }, { status: 200 }]);
+
+			await expect(retrying.get('/v1/transfers')).rejects.toThrow();
+			expect(requests).toHaveLength(2);
+		});
+	});
+
+	describe('post', () => {
+		it('should send the idempotency key in the body and the header', async () => {
+			const posting = new CircleApiClient({ apiKey: 'TEST_API_KEY:post:key', environment: 'sandbox' });
+			const requests = stubAdapter(posting, [{ status: 201, data: { data: { id: 'p1' } } }]);
+
+			await posting.post('/v1/payouts', { amount: '1.00' }, { idempotencyKey: 'key-1' });
+			expect(JSON.parse(requests[0].data)).toEqual({ amount: '1.00', idempotencyKey: 'key-1' });
+			expect(requests[0].headers['X-Idempotency-Key']).toBe('key-1');
+		});
+
+		it('should send a bare UUID when the credential has a prefix', async () => {
+			const posting = new CircleApiClient({ apiKey: 'TEST_API_KEY:post:prefix', environment: 'sandbox', idempotencyKeyPrefix: 'acme' });
+			const requests = stubAdapter(posting, [{ status: 201 }]);
+
+			await posting.post('/v1/payouts', { amount: '1.00' });
+			const { idempotencyKey } = JSON.parse(requests[0].data);
+			expect(idempotencyKey).toMatch(/^[a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12}$/);
+			expect(requests[0].headers['X-Idempotency-Key']).toBe(idempotencyKey);
+		});
+
+		it('should leave the body alone when idempotency is off', async () => {
+			const posting = new CircleApiClient({ apiKey: 'TEST_API_KEY:post:nokey', environment: 'sandbox' });
+			const requests = stubAdapter(posting, [{ status: 201 }]);
+
+			await posting.post('/v1/w3s/users', { userId: 'u1' }, { useIdempotency: false });
+			expect(JSON.parse(requests[0].data)).toEqual({ userId: 'u1' });
+			expect(requests[0].headers['X-Idempotency-Key']).toBeUndefined();
+		});
+	});
+
+	describe('request', () => {
+		it('should only accept paths relative to the API base URL', async () => {
+			await expect(client.request('GET', 'https://example.com/v1/configuration')).rejects.toThrow('Path must be relative');
+			await expect(client.request('GET', '//example.com/v1/configuration')).rejects.toThrow('Path must be relative');
+		});
+	});
+
+	describe('sandbox mocks', () => {
+		it('should refuse to run against production', async () => {
+			const production = new CircleApiClient({ apiKey: 'LIVE_API_KEY:abc:def', environment: 'production' });
+
+			await expect(production.mockIncomingWire({
+				trackingRef: 'CIR13FB13A',
+				amount: { amount: '100.00', currency: 'USD' },
+				beneficiaryBank: { accountNumber: '12340010' },
+			})).rejects.toThrow('only available with a sandbox');
+		});
+	});
+});
@@ -0,0 +1,52 @@
+import { normalizeScreeningResult } from '../nodes/Circle/utils/complianceUtils';
+
+describe('Compliance Utilities', () => {
+	describe('normalizeScreeningResult', () => {
+		it('should approve when no rule is triggered', () => {
+			expect(normalizeScreeningResult({ result: 'APPROVED', decision: { actions: ['APPROVE'] } })).toEqual({
+				verdict: 'approve',
+				rules: [],
+				actions: ['APPROVE'],
+				riskCategories: [],
+				riskScore: null,
+			});
+		});
+
+		it('should flag review actions', () => {
+			const summary = normalizeScreeningResult({
+				result: 'APPROVED',
+				decision: {
+					ruleName: 'Gambling exposure',
+					actions: ['review'],
+					reasons: [{ source: 'ADDRESS', riskScore: 'MEDIUM', riskCategories: ['GAMBLING'] }],
+				},
+			});
+
+			expect(summary.verdict).toBe('review');
+			expect(summary.rules).toEqual(['Gambling exposure']);
+			expect(summary.riskScore).toBe('MEDIUM');
+		});
+
+		it('should deny on blocking actions and collect every reason', () => {
+			const summary = normalizeScreeningResult({
+				result: 'DENIED',
+				decision: {
+					ruleName: 'Sanctions',
+					actions: ['REVIEW', 'FREEZE_WALLET'],
+					reasons: [
+						{ source: 'ADDRESS', riskScore: 'BLOCKLIST', riskCategories: ['SANCTIONS'] },
+						{ source: 'ADDRESS', riskScore: 'HIGH', riskCategories: ['SANCTIONS', 'TERRORIST_FINANCING'] },
+					],
+				},
+			});
+
+			expect(summary.verdict).toBe('deny');
+			expect(summary.riskCategories).toEqual(['SANCTIONS', 'TERRORIST_FINANCING']);
+			expect(summary.riskScore).toBe('BLOCKLIST');
+		});
+
+		it('should deny a DENIED result without actions', () => {
+			expect(normalizeScreeningResult({ result: 'DENIED' }).verdict).toBe('deny');
+		});
+	});
+});
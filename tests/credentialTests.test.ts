@@ -0,0 +1,117 @@
+import axios from 'axios';
+import {
+	getApiKeyEnvironment,
+	testBlockchainCredential,
+	testCctpCredential,
+	testPlatformCredential,
+} from '../nodes/Circle/transport/credentialTests';
+
+// Well-known Hardhat test account #0
+const TEST_PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const TEST_ADDRESS = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+
+describe('Credential Tests', () => {
+	afterEach(() => jest.restoreAllMocks());
+
+	describe('getApiKeyEnvironment', () => {
+		it('should read the environment from the key prefix', () => {
+			expect(getApiKeyEnvironment('LIVE_API_KEY:abc:def')).toBe('production');
+			expect(getApiKeyEnvironment('TEST_API_KEY:abc:def')).toBe('sandbox');
+			expect(getApiKeyEnvironment('abc')).toBeUndefined();
+		});
+	});
+
+	describe('testPlatformCredential', () => {
+		it('should flag keys for the other environment without calling Circle', async () => {
+			const result = await testPlatformCredential({ apiKey: 'TEST_API_KEY:abc:def', environment: 'production' });
+
+			expect(result.status).toBe('Error');
+			expect(result.message).toContain('sandbox API key but Environment is set to production');
+		});
+	});
+
+	describe('testBlockchainCredential', () => {
+		it('should report the chain ID and signer address', async () => {
+			jest.spyOn(axios, 'post').mockResolvedValue({ data: { jsonrpc: '2.0', id: 1, result: '0x1' } });
+
+			const result = await testBlockchainCredential({ network: 'ethereum', rpcUrl: 'https://rpc.example', privateKey: TEST_PRIVATE_KEY });
+
+			expect(result).toEqual({ status: 'OK', message: `Connected to chain ID 1. Signer address: ${TEST_ADDRESS}` });
+		});
+
+		it('should reject an RPC on the wrong chain', async () => {
+			jest.spyOn(axios, 'post').mockResolvedValue({ data: { jsonrpc: '2.0', id: 1, result: '0x89' } });
+
+			const result = await testBlockchainCredential({ network: 'ethereum', rpcUrl: 'https://rpc.example' });
+
+			expect(result.status).toBe('Error');
+			expect(result.message).toContain('chain ID 137, expected 1');
+		});
+
+		it('should use the chain ID of custom networks', async () => {
+			jest.spyOn(axios, 'post').mockResolvedValue({ data: { jsonrpc: '2.0', id: 1, result: '0x539' } });
+
+			const result = await testBlockchainCredential({ network: 'custom', chainId: 1337, rpcUrl: 'https://rpc.example' });
+
+			expect(result.status).toBe('OK');
+		});
+
+		it('should only check that non-EVM RPC endpoints respond', async () => {
+			const post = jest.spyOn(axios, 'post');
+			const get = jest.spyOn(axios, 'get').mockResolvedValue({ status: 405, data: '' });
+
+			const result = await testBlockchainCredential({ network: 'solana', rpcUrl: 'https://rpc.example', privateKey: 'not-an-evm-key' });
+
+			expect(result).toEqual({ status: 'OK', message: 'RPC endpoint is reachable; the chain is not verified on Solana' });
+			expect(get).toHaveBeenCalledWith('https://rpc.example', expect.anything());
+			expect(post).not.toHaveBeenCalled();
+		});
+
+		it('should reject unreachable non-EVM RPC endpoints', async () => {
+			jest.spyOn(axios, 'get').mockRejectedValue(new Error('getaddrinfo ENOTFOUND rpc.example'));
+
+			const result = await testBlockchainCredential({ network: 'stellar', rpcUrl: 'https://rpc.example' });
+
+			expect(result).toEqual({ status: 'Error', message: 'RPC endpoint is not reachable: getaddrinfo ENOTFOUND rpc.example' });
+		});
+
+		it('should reject invalid private keys', async () => {
+			const result = await testBlockchainCredential({ network: 'ethereum', rpcUrl: 'https://rpc.example', privateKey: '0x1234' });
+
+			expect(result).toEqual({ status: 'Error', message: 'Private key is not a valid EVM private key' });
+		});
+	});
+
+	describe('testCctpCredential', () => {
+		it('should check both RPC endpoints and the attestation service', async () => {
+			const post = jest.spyOn(axios, 'post').mockImplementation(async url => ({
+				data: { result: url === 'https://eth.example' ? '0x1' : '0xa86a' },
+			}));
+			const get = jest.spyOn(axios, 'get').mockResolvedValue({ status: 404, data: {} });
+
+			const result = await testCctpCredential({
+				sourceNetwork: 'ethereum',
+				sourceRpcUrl: 'https://eth.example',
+				destinationNetwork: 'avalanche',
+				destinationRpcUrl: 'https://avax.example',
+			});
+
+			expect(result.status).toBe('OK');
+			expect(post).toHaveBeenCalledTimes(2);
+			expect(get.mock.calls[0][0]).toMatch(/^https:\/\/iris-api\.circle\.com\/attestations\/0x0+$/);
+		});
+
+		it('should name the endpoint that failed', async () => {
+			jest.spyOn(axios, 'post').mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+			const result = await testCctpCredential({
+				sourceNetwork: 'ethereum',
+				sourceRpcUrl: 'https://eth.example',
+				destinationNetwork: 'avalanche',
+				destinationRpcUrl: 'https://avax.example',
+			});
+
+			expect(result).toEqual({ status: 'Error', message: 'Source RPC endpoint (ethereum): connect ECONNREFUSED' });
+		});
+	});
+});
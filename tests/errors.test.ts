@@ -0,0 +1,82 @@
+import {
+	CircleError,
+	CircleAuthenticationError,
+	CircleComplianceError,
+	CircleFinalStatusError,
+	CircleIdempotencyError,
+	CirclePaymentError,
+	CircleRateLimitError,
+	CircleServerError,
+	CircleValidationError,
+	createCircleError,
+} from '../nodes/Circle/transport/errors';
+
+describe('Circle API Errors', () => {
+	describe('createCircleError', () => {
+		it('should map Circle error codes to typed errors', () => {
+			const error = createCircleError(400, { code: 2002, message: 'Insufficient funds' });
+
+			expect(error).toBeInstanceOf(CirclePaymentError);
+			expect(error).toBeInstanceOf(CircleError);
+			expect(error.errorCode).toBe('INSUFFICIENT_FUNDS');
+			expect(error.code).toBe(2002);
+			expect(error.httpStatus).toBe(400);
+			expect(error.retryable).toBe(false);
+			expect(error.message).toBe('Circle API Error 2002: Insufficient funds');
+		});
+
+		it('should map compliance and idempotency codes', () => {
+			expect(createCircleError(400, { code: 4002, message: 'x' })).toBeInstanceOf(CircleComplianceError);
+			expect(createCircleError(400, { code: 3002, message: 'x' })).toBeInstanceOf(CircleComplianceError);
+			expect(createCircleError(409, { code: 5001, message: 'x' })).toBeInstanceOf(CircleIdempotencyError);
+		});
+
+		it('should fall back to the HTTP status for unknown codes', () => {
+			expect(createCircleError(400, { code: 9999, message: 'x' })).toBeInstanceOf(CircleValidationError);
+			expect(createCircleError(401, { code: 9999, message: 'x' })).toBeInstanceOf(CircleAuthenticationError);
+			expect(createCircleError(429, {})).toBeInstanceOf(CircleRateLimitError);
+			expect(createCircleError(502, 'Bad Gateway', 'Request failed')).toBeInstanceOf(CircleServerError);
+		});
+
+		it('should flag rate limits and server errors as retryable', () => {
+			expect(createCircleError(429, { code: 1005, message: 'Slow down' }).retryable).toBe(true);
+			expect(createCircleError(503, {}).retryable).toBe(true);
+			expect(createCircleError(404, { code: 1004, message: 'x' }).retryable).toBe(false);
+		});
+
+		it('should keep errors[] location details', () => {
+			const error = createCircleError(400, {
+				code: 1001,
+				message: 'Invalid entity',
+				errors: [{ error: 'required', message: 'amount is required', location: 'amount.amount' }],
+			});
+
+			expect(error.details).toHaveLength(1);
+			expect(error.description).toContain('amount.amount: amount is required');
+			expect(error.toJSON()).toMatchObject({
+				httpStatus: 400,
+				code: 1001,
+				errorCode: 'INVALID_REQUEST',
+				retryable: false,
+				details: [{ location: 'amount.amount' }],
+			});
+		});
+
+		it('should use the fallback message when the body has none', () => {
+			const error = createCircleError(500, undefined, 'Request failed with status code 500');
+			expect(error.message).toBe('Circle API Error: Request failed with status code 500');
+			expect(error.errorCode).toBe('UNKNOWN');
+		});
+	});
+
+	describe('CircleFinalStatusError', () => {
+		it('should carry the final status and resource', () => {
+			const payout = { id: 'p1', status: 'returned', errorCode: 'invalid_account_number' };
+			const error = new CircleFinalStatusError('Payout p1 ended with status returned', 'returned', payout);
+
+			expect(error).toBeInstanceOf(CircleError);
+			expect(error.retryable).toBe(false);
+			expect(error.toJSON()).toMatchObject({ name: 'CircleFinalStatusError', status: 'returned', result: payout });
+		});
+	});
+});
@@ -0,0 +1,39 @@
+import { getFxCounterCurrency, getFxQuoteTerms } from '../nodes/Circle/utils/fxUtils';
+
+describe('FX Utilities', () => {
+	describe('getFxCounterCurrency', () => {
+		it('should pair USDC with EURC', () => {
+			expect(getFxCounterCurrency('USDC')).toBe('EURC');
+			expect(getFxCounterCurrency('eurc')).toBe('USDC');
+		});
+
+		it('should reject other currencies', () => {
+			expect(() => getFxCounterCurrency('USD')).toThrow('Unsupported FX currency: USD');
+		});
+	});
+
+	describe('getFxQuoteTerms', () => {
+		const now = Date.parse('2024-05-01T12:00:00Z');
+
+		it('should report the rate and seconds left', () => {
+			expect(getFxQuoteTerms({ id: 'q1', rate: 0.9215, expiry: '2024-05-01T12:00:30.500Z' }, now)).toEqual({
+				rate: 0.9215,
+				expiresAt: '2024-05-01T12:00:30.500Z',
+				expiresInSeconds: 30,
+				expired: false,
+			});
+		});
+
+		it('should flag expired quotes', () => {
+			const terms = getFxQuoteTerms({ rate: '1.0852', expiresAt: '2024-05-01T11:59:00Z' }, now);
+
+			expect(terms.rate).toBe(1.0852);
+			expect(terms.expiresInSeconds).toBe(0);
+			expect(terms.expired).toBe(true);
+		});
+
+		it('should tolerate quotes without an expiry', () => {
+			expect(getFxQuoteTerms({}, now)).toEqual({ rate: null, expiresAt: null, expiresInSeconds: null, expired: false });
+		});
+	});
+});
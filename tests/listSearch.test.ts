@@ -0,0 +1,120 @@
+import { CircleApiClient } from '../nodes/Circle/transport/circleApi';
+import {
+	searchBankAccounts,
+	searchPayouts,
+	searchProgrammableWallets,
+	searchRecipients,
+	searchSubscriptions,
+	searchWallets,
+} from '../nodes/Circle/transport/listSearch';
+
+describe('List Search', () => {
+	const client = new CircleApiClient({ apiKey: 'TEST_API_KEY:abc:def', environment: 'sandbox' });
+
+	afterEach(() => jest.restoreAllMocks());
+
+	describe('searchWallets', () => {
+		it('should label wallets by description and filter locally', async () => {
+			jest.spyOn(client, 'getWallets').mockResolvedValue([
+				{ walletId: '1000216185', description: 'Treasury' },
+				{ walletId: '1000216186', description: 'Payroll' },
+				{ walletId: '1000216187' },
+			]);
+
+			const result = await searchWallets(client, 'treas');
+
+			expect(result).toEqual({ results: [{ name: 'Treasury (1000216185)', value: '1000216185' }], paginationToken: undefined });
+		});
+
+		it('should continue after the last wallet of a full page', async () => {
+			const wallets = Array.from({ length: 50 }, (_, index) => ({ walletId: String(index) }));
+			const getWallets = jest.spyOn(client, 'getWallets').mockResolvedValue(wallets);
+
+			const result = await searchWallets(client, undefined, '99');
+
+			expect(getWallets).toHaveBeenCalledWith({ pageSize: 50, pageAfter: '99' });
+			expect(result.results).toHaveLength(50);
+			expect(result.paginationToken).toBe('49');
+		});
+	});
+
+	describe('searchProgrammableWallets', () => {
+		it('should label wallets by name or address and pass the user token on', async () => {
+			const getProgrammableWallets = jest.spyOn(client, 'getProgrammableWallets').mockResolvedValue([
+				{ id: 'w1', name: 'Hot wallet', address: '0xabc', blockchain: 'ETH' },
+				{ id: 'w2', address: '0xdef', blockchain: 'MATIC' },
+			]);
+
+			const result = await searchProgrammableWallets(client, undefined, undefined, 'user-token');
+
+			expect(getProgrammableWallets).toHaveBeenCalledWith({ pageSize: 50 }, 'user-token');
+			expect(result.results).toEqual([
+				{ name: 'Hot wallet (ETH)', value: 'w1' },
+				{ name: '0xdef (MATIC)', value: 'w2' },
+			]);
+		});
+	});
+
+	describe('searchPayouts', () => {
+		it('should label payouts by amount and status', async () => {
+			jest.spyOn(client, 'getPayouts').mockResolvedValue([
+				{ id: 'p1', destination: { type: 'wire', id: 'b1' }, amount: { amount: '100.00', currency: 'USD' }, status: 'complete' },
+				{ id: 'p2', destination: { type: 'wire', id: 'b1' }, amount: { amount: '5.00', currency: 'USD' }, status: 'pending' },
+			]);
+
+			const result = await searchPayouts(client, 'pending');
+
+			expect(result).toEqual({ results: [{ name: '5.00 USD pending (p2)', value: 'p2' }], paginationToken: undefined });
+		});
+	});
+
+	describe('searchRecipients', () => {
+		it('should prefer the nickname and fall back to the address', async () => {
+			jest.spyOn(client, 'getRecipients').mockResolvedValue([
+				{ id: 'r1', chain: 'ETH', address: '0xabc', metadata: { nickname: 'Supplier' } },
+				{ id: 'r2', chain: 'SOL', address: 'So1ana', metadata: {} },
+			]);
+
+			const result = await searchRecipients(client);
+
+			expect(result.results).toEqual([
+				{ name: 'Supplier (ETH)', value: 'r1' },
+				{ name: 'So1ana (SOL)', value: 'r2' },
+			]);
+		});
+	});
+
+	describe('searchSubscriptions', () => {
+		it('should match the filter against the endpoint and ID', async () => {
+			jest.spyOn(client, 'getSubscriptions').mockResolvedValue([
+				{ id: 's1', endpoint: 'https://hooks.example.com/circle' },
+				{ id: 's2', endpoint: 'https://other.example.com' },
+			]);
+
+			expect((await searchSubscriptions(client, 'HOOKS')).results).toEqual([{ name: 'https://hooks.example.com/circle', value: 's1' }]);
+			expect((await searchSubscriptions(client, 's2')).results).toEqual([{ name: 'https://other.example.com', value: 's2' }]);
+		});
+
+		it('should continue after the last subscription of a full page', async () => {
+			const subscriptions = Array.from({ length: 50 }, (_, index) => ({ id: `s${index}`, endpoint: 'https://hooks.example.com' }));
+			const getSubscriptions = jest.spyOn(client, 'getSubscriptions').mockResolvedValue(subscriptions);
+
+			const result = await searchSubscriptions(client, undefined, 's99');
+
+			expect(getSubscriptions).toHaveBeenCalledWith({ pageSize: 50, pageAfter: 's99' });
+			expect(result.paginationToken).toBe('s49');
+		});
+	});
+
+	describe('searchBankAccounts', () => {
+		it('should list business bank accounts without pagination', async () => {
+			const getWireBankAccounts = jest.spyOn(client, 'getWireBankAccounts');
+			jest.spyOn(client, 'getBusinessBankAccounts').mockResolvedValue([{ id: 'b1', description: 'WELLS FARGO BANK, NA ****0010' }]);
+
+			const result = await searchBankAccounts(client, 'business');
+
+			expect(getWireBankAccounts).not.toHaveBeenCalled();
+			expect(result).toEqual({ results: [{ name: 'WELLS FARGO BANK, NA ****0010', value: 'b1' }], paginationToken: undefined });
+		});
+	});
+});
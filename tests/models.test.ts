@@ -0,0 +1,80 @@
+import { CircleResponseValidationError } from '../nodes/Circle/transport/errors';
+import { validateModel, validateModels } from '../nodes/Circle/transport/models';
+
+const TRANSFER = {
+	id: 'b8627ae8-732b-4d25-b947-1df8f4007a29',
+	source: { type: 'wallet', id: '1000216185' },
+	destination: { type: 'blockchain', address: '0x8381470ED67C3802402dbbFa0058E8871F017A6F', chain: 'ETH' },
+	amount: { amount: '3.14', currency: 'USD' },
+	status: 'pending',
+	createDate: '2024-05-01T12:00:00.000Z',
+};
+
+describe('Circle Response Models', () => {
+	describe('validateModel', () => {
+		it('should pass valid records through, keeping unmodelled fields', () => {
+			const transfer = validateModel('Transfer', { ...TRANSFER, errorCode: null });
+
+			expect(transfer).toEqual({ ...TRANSFER, errorCode: null });
+			expect(transfer.amount.amount).toBe('3.14');
+		});
+
+		it('should normalize money fields', () => {
+			const payment = validateModel('Payment', {
+				id: 'p1',
+				status: 'confirmed',
+				amount: { amount: 10, currency: 'usd' },
+				fees: { amount: '0.300', currency: 'USD' },
+			});
+
+			expect(payment.amount).toEqual({ amount: '10.00', currency: 'USD' });
+			expect(payment.fees).toEqual({ amount: '0.30', currency: 'USD' });
+		});
+
+		it('should normalize lists of money amounts', () => {
+			const balances = validateModel('Balances', {
+				available: [{ amount: '100', currency: 'USD' }],
+				unsettled: [],
+			});
+
+			expect(balances.available).toEqual([{ amount: '100.00', currency: 'USD' }]);
+		});
+
+		it('should list every mismatched field', () => {
+			expect.assertions(4);
+			try {
+				validateModel('Payout', { id: 42, amount: { amount: 'ten', currency: 'USD' }, status: 'pending' });
+			} catch (error) {
+				expect(error).toBeInstanceOf(CircleResponseValidationError);
+				expect((error as CircleResponseValidationError).message).toContain(
+					'Circle returned an unexpected Payout: Payout.id expected string, got number; Payout.destination is required; Payout.amount.amount "ten" is not a decimal amount.',
+				);
+				expect((error as CircleResponseValidationError).details.map(detail => detail.location)).toEqual([
+					'Payout.id',
+					'Payout.destination',
+					'Payout.amount.amount',
+				]);
+				expect((error as CircleResponseValidationError).retryable).toBe(false);
+			}
+		});
+
+		it('should reject responses that are not objects', () => {
+			expect(() => validateModel('Wallet', 'nope')).toThrow('Wallet expected an object, got string');
+		});
+	});
+
+	describe('validateModels', () => {
+		it('should validate each item and point at the failing index', () => {
+			expect(() => validateModels('Transfer', [TRANSFER, { ...TRANSFER, status: undefined }])).toThrow('Transfer[1].status is required');
+		});
+
+		it('should reject responses that are not lists', () => {
+			expect(() => validateModels('Subscription', { id: 's1' })).toThrow('Subscription[] expected a list, got object');
+		});
+
+		it('should summarize long lists of problems', () => {
+			const recipients = Array.from({ length: 5 }, () => ({ id: 'r', chain: 'ETH' }));
+			expect(() => validateModels('Recipient', recipients)).toThrow('(and 2 more)');
+		});
+	});
+});
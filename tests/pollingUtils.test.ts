@@ -0,0 +1,91 @@
+import {
+	hasTerminalStatus,
+	pollUntil,
+	PAYMENT_SETTLED_STATUSES,
+	PAYMENT_TERMINAL_STATUSES,
+	PAYOUT_TERMINAL_STATUSES,
+	PollTimeoutError,
+	TRANSFER_TERMINAL_STATUSES,
+} from '../nodes/Circle/utils/pollingUtils';
+
+function fakeClock() {
+	let now = 0;
+	const waits: number[] = [];
+	return {
+		waits,
+		now: () => now,
+		wait: async (ms: number) => {
+			waits.push(ms);
+			now += ms;
+		},
+	};
+}
+
+describe('Polling Utilities', () => {
+	describe('pollUntil', () => {
+		it('should poll until the condition holds', async () => {
+			const clock = fakeClock();
+			const statuses = ['pending', 'pending', 'complete'];
+			let calls = 0;
+
+			const result = await pollUntil(
+				async () => ({ status: statuses[calls++] }),
+				payout => hasTerminalStatus(payout, PAYOUT_TERMINAL_STATUSES),
+				{ interval: 5000, timeout: 60000, ...clock },
+			);
+
+			expect(result).toEqual({ status: 'complete' });
+			expect(calls).toBe(3);
+			expect(clock.waits).toEqual([5000, 5000]);
+		});
+
+		it('should not wait when the first result is final', async () => {
+			const clock = fakeClock();
+			await pollUntil(async () => ({ status: 'failed' }), payout => hasTerminalStatus(payout, PAYOUT_TERMINAL_STATUSES), { interval: 5000, timeout: 60000, ...clock });
+			expect(clock.waits).toEqual([]);
+		});
+
+		it('should throw once the timeout elapses', async () => {
+			const clock = fakeClock();
+			await expect(
+				pollUntil(async () => ({ status: 'pending' }), () => false, { interval: 4000, timeout: 10000, ...clock }),
+			).rejects.toThrow('Timed out after 10s');
+			expect(clock.waits).toEqual([4000, 4000, 2000]);
+		});
+
+		it('should keep the last fetched state on timeout', async () => {
+			const clock = fakeClock();
+			const error = await pollUntil(async () => ({ id: 'p1', status: 'pending' }), () => false, { interval: 4000, timeout: 10000, ...clock })
+				.catch(caught => caught);
+			expect(error).toBeInstanceOf(PollTimeoutError);
+			expect((error as PollTimeoutError).lastResult).toEqual({ id: 'p1', status: 'pending' });
+		});
+
+		it('should back off up to the maximum interval', async () => {
+			const clock = fakeClock();
+			await expect(
+				pollUntil(async () => ({ status: 'pending' }), () => false, { interval: 1000, timeout: 20000, backoff: 2, maxInterval: 5000, ...clock }),
+			).rejects.toThrow('Timed out after 20s');
+			expect(clock.waits).toEqual([1000, 2000, 4000, 5000, 5000, 3000]);
+		});
+	});
+
+	describe('hasTerminalStatus', () => {
+		it('should match payout terminal statuses', () => {
+			expect(hasTerminalStatus({ status: 'complete' }, PAYOUT_TERMINAL_STATUSES)).toBe(true);
+			expect(hasTerminalStatus({ status: 'returned' }, PAYOUT_TERMINAL_STATUSES)).toBe(true);
+			expect(hasTerminalStatus({ status: 'pending' }, PAYOUT_TERMINAL_STATUSES)).toBe(false);
+			expect(hasTerminalStatus({}, PAYOUT_TERMINAL_STATUSES)).toBe(false);
+		});
+
+		it('should match transfer and payment terminal statuses', () => {
+			expect(hasTerminalStatus({ status: 'complete' }, TRANSFER_TERMINAL_STATUSES)).toBe(true);
+			expect(hasTerminalStatus({ status: 'returned' }, TRANSFER_TERMINAL_STATUSES)).toBe(false);
+			expect(hasTerminalStatus({ status: 'paid' }, PAYMENT_TERMINAL_STATUSES)).toBe(true);
+			expect(hasTerminalStatus({ status: 'confirmed' }, PAYMENT_TERMINAL_STATUSES)).toBe(true);
+			expect(hasTerminalStatus({ status: 'confirmed' }, PAYMENT_SETTLED_STATUSES)).toBe(false);
+			expect(hasTerminalStatus({ status: 'action_required' }, PAYMENT_TERMINAL_STATUSES)).toBe(false);
+			expect(hasTerminalStatus({ status: 'pending' }, PAYMENT_TERMINAL_STATUSES)).toBe(false);
+		});
+	});
+});
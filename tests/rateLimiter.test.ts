@@ -0,0 +1,83 @@
+import {
+	RateLimiter,
+	getEndpointFamily,
+	getRateLimiter,
+	resetRateLimiters,
+} from '../nodes/Circle/transport/rateLimiter';
+
+describe('Rate Limiter', () => {
+	describe('getEndpointFamily', () => {
+		it('should map endpoints to their families', () => {
+			expect(getEndpointFamily('/v1/wallets')).toBe('accounts');
+			expect(getEndpointFamily('/v1/wallets/123/addresses')).toBe('accounts');
+			expect(getEndpointFamily('/v1/transfers/abc')).toBe('transfers');
+			expect(getEndpointFamily('/v1/businessAccount/transfers')).toBe('transfers');
+			expect(getEndpointFamily('/v1/payments')).toBe('payments');
+			expect(getEndpointFamily('/v1/paymentIntents/abc')).toBe('payments');
+			expect(getEndpointFamily('/v1/w3s/compliance/screening/addresses')).toBe('compliance');
+		});
+
+		it('should fall back to default', () => {
+			expect(getEndpointFamily('/v1/configuration')).toBe('default');
+			expect(getEndpointFamily('/v1/walletsets')).toBe('default');
+		});
+	});
+
+	describe('RateLimiter', () => {
+		it('should hand out tokens up to capacity and then ask to wait', () => {
+			let now = 0;
+			const limiter = new RateLimiter(60, () => now);
+
+			for (let i = 0; i < 60; i++) {
+				expect(limiter.reserve()).toBe(0);
+			}
+			expect(limiter.reserve()).toBe(1000);
+
+			now += 1000;
+			expect(limiter.reserve()).toBe(0);
+		});
+
+		it('should adopt limits from response headers', () => {
+			let now = 0;
+			const limiter = new RateLimiter(100, () => now);
+
+			limiter.updateFromHeaders({ 'x-ratelimit-limit': '10', 'x-ratelimit-remaining': '2' });
+
+			expect(limiter.getState().capacity).toBe(10);
+			expect(limiter.reserve()).toBe(0);
+			expect(limiter.reserve()).toBe(0);
+			expect(limiter.reserve()).toBe(6000);
+		});
+
+		it('should block until reset when nothing remains', () => {
+			let now = 1_000;
+			const limiter = new RateLimiter(100, () => now);
+
+			limiter.updateFromHeaders({ 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '30' });
+
+			expect(limiter.reserve()).toBe(30000);
+			now += 30000;
+			expect(limiter.reserve()).toBe(0);
+		});
+	});
+
+	describe('getRateLimiter', () => {
+		beforeEach(() => resetRateLimiters());
+
+		it('should share a limiter per API key and family', () => {
+			const a = getRateLimiter('key-1', '/v1/transfers');
+			const b = getRateLimiter('key-1', '/v1/transfers/123');
+			const c = getRateLimiter('key-1', '/v1/payments');
+			const d = getRateLimiter('key-2', '/v1/transfers');
+
+			expect(a).toBe(b);
+			expect(a).not.toBe(c);
+			expect(a).not.toBe(d);
+		});
+
+		it('should size buckets from RATE_LIMITS', () => {
+			expect(getRateLimiter('key', '/v1/compliance').getState().capacity).toBe(30);
+			expect(getRateLimiter('key', '/v1/wallets').getState().capacity).toBe(50);
+		});
+	});
+});
@@ -0,0 +1,73 @@
+import {
+	computeBackoffDelay,
+	isRetryableNetworkError,
+	isRetryableStatus,
+	parseRetryAfter,
+} from '../nodes/Circle/utils/retryUtils';
+
+describe('Retry Utilities', () => {
+	describe('isRetryableStatus', () => {
+		it('should retry rate limits and server errors', () => {
+			expect(isRetryableStatus(429)).toBe(true);
+			expect(isRetryableStatus(500)).toBe(true);
+			expect(isRetryableStatus(503)).toBe(true);
+		});
+
+		it('should not retry client errors', () => {
+			expect(isRetryableStatus(400)).toBe(false);
+			expect(isRetryableStatus(401)).toBe(false);
+			expect(isRetryableStatus(404)).toBe(false);
+			expect(isRetryableStatus(409)).toBe(false);
+		});
+	});
+
+	describe('isRetryableNetworkError', () => {
+		it('should retry timeouts and resets', () => {
+			expect(isRetryableNetworkError('ECONNABORTED')).toBe(true);
+			expect(isRetryableNetworkError('ECONNRESET')).toBe(true);
+			expect(isRetryableNetworkError('ETIMEDOUT')).toBe(true);
+		});
+
+		it('should not retry unknown or missing codes', () => {
+			expect(isRetryableNetworkError('ERR_BAD_REQUEST')).toBe(false);
+			expect(isRetryableNetworkError(undefined)).toBe(false);
+		});
+	});
+
+	describe('computeBackoffDelay', () => {
+		it('should grow exponentially with the attempt number', () => {
+			const max = () => 0.999999;
+			expect(computeBackoffDelay(1, 500, 30000, max)).toBe(499);
+			expect(computeBackoffDelay(2, 500, 30000, max)).toBe(999);
+			expect(computeBackoffDelay(3, 500, 30000, max)).toBe(1999);
+		});
+
+		it('should never exceed the max delay', () => {
+			expect(computeBackoffDelay(20, 500, 30000, () => 0.999999)).toBeLessThan(30000);
+		});
+
+		it('should apply jitter', () => {
+			expect(computeBackoffDelay(3, 500, 30000, () => 0)).toBe(0);
+			expect(computeBackoffDelay(3, 500, 30000, () => 0.5)).toBe(1000);
+		});
+	});
+
+	describe('parseRetryAfter', () => {
+		it('should parse seconds', () => {
+			expect(parseRetryAfter('5')).toBe(5000);
+			expect(parseRetryAfter(2)).toBe(2000);
+		});
+
+		it('should parse HTTP dates', () => {
+			const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT');
+			expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:10 GMT', now)).toBe(10000);
+			expect(parseRetryAfter('Wed, 21 Oct 2026 07:27:00 GMT', now)).toBe(0);
+		});
+
+		it('should ignore missing or invalid values', () => {
+			expect(parseRetryAfter(undefined)).toBeUndefined();
+			expect(parseRetryAfter('')).toBeUndefined();
+			expect(parseRetryAfter('soon')).toBeUndefined();
+		});
+	});
+});
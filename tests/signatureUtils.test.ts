@@ -1,6 +1,12 @@
+import * as crypto from 'crypto';
 import {
 	verifyWebhookSignature,
 	generateIdempotencyKey,
+	generateUuidV5,
+	deriveIdempotencyKey,
+	isValidUuid,
+	generateEntitySecret,
+	generateEntitySecretCiphertext,
 	createHmacSignature,
 	sha256Hash,
 	isValidHex,
@@ -9,6 +15,7 @@ import {
 	padHex,
 	randomBytes,
 	createAuthHeader,
+	getJwtExpiry,
 } from '../nodes/Circle/utils/signatureUtils';
 
 describe('Signature Utilities', () => {
@@ -54,6 +61,81 @@ describe('Signature Utilities', () => {
 		});
 	});
 
+	describe('isValidUuid', () => {
+		it('should accept UUIDs only', () => {
+			expect(isValidUuid('1f8bdfde-7b62-4d5a-a1f8-5c2a8f8c1d2e')).toBe(true);
+			expect(isValidUuid(generateIdempotencyKey('acme'))).toBe(false);
+			expect(isValidUuid('INV-1')).toBe(false);
+		});
+	});
+
+	describe('generateUuidV5', () => {
+		it('should match the RFC 4122 reference output', () => {
+			const dnsNamespace = '6ba7b810-9dad-11d1-80b4-00c04fd430c8';
+			expect(generateUuidV5('www.example.com', dnsNamespace)).toBe('2ed6657d-e927-568b-95e1-2665a8aea6a2');
+		});
+
+		it('should reject invalid namespaces', () => {
+			expect(() => generateUuidV5('name', 'not-a-uuid')).toThrow('Invalid namespace UUID');
+		});
+	});
+
+	describe('deriveIdempotencyKey', () => {
+		it('should be stable for the same operation, values and prefix', () => {
+			const key1 = deriveIdempotencyKey('accounts.createTransfer', ['INV-1', '100.00'], 'acme');
+			const key2 = deriveIdempotencyKey('accounts.createTransfer', ['INV-1', '100.00'], 'acme');
+			
+			expect(key1).toBe(key2);
+			expect(key1).toMatch(/^[a-f0-9]{8}-[a-f0-9]{4}-5[a-f0-9]{3}-[89ab][a-f0-9]{3}-[a-f0-9]{12}$/);
+		});
+
+		it('should change with the operation, values or prefix', () => {
+			const key = deriveIdempotencyKey('accounts.createTransfer', ['INV-1', '100.00'], 'acme');
+			
+			expect(deriveIdempotencyKey('payouts.createPayout', ['INV-1', '100.00'], 'acme')).not.toBe(key);
+			expect(deriveIdempotencyKey('accounts.createTransfer', ['INV-2', '100.00'], 'acme')).not.toBe(key);
+			expect(deriveIdempotencyKey('accounts.createTransfer', ['INV-1', '100.00'], 'other')).not.toBe(key);
+			expect(deriveIdempotencyKey('accounts.createTransfer', ['INV-1', '100.00'])).not.toBe(key);
+		});
+	});
+
+	describe('generateEntitySecret', () => {
+		it('should generate a unique 32-byte hex secret', () => {
+			const secret = generateEntitySecret();
+			
+			expect(secret).toMatch(/^[a-f0-9]{64}$/);
+			expect(generateEntitySecret()).not.toBe(secret);
+		});
+	});
+
+	describe('generateEntitySecretCiphertext', () => {
+		const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', {
+			modulusLength: 2048,
+			publicKeyEncoding: { type: 'spki', format: 'pem' },
+			privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+		});
+		const entitySecret = 'a'.repeat(32) + 'b'.repeat(32);
+
+		it('should encrypt the secret bytes with RSA-OAEP-SHA256', () => {
+			const ciphertext = generateEntitySecretCiphertext(entitySecret, publicKey);
+			const decrypted = crypto.privateDecrypt(
+				{ key: privateKey, padding: crypto.constants.RSA_PKCS1_OAEP_PADDING, oaepHash: 'sha256' },
+				Buffer.from(ciphertext, 'base64'),
+			);
+			
+			expect(decrypted.toString('hex')).toBe(entitySecret);
+		});
+
+		it('should produce a fresh ciphertext on every call', () => {
+			expect(generateEntitySecretCiphertext(entitySecret, publicKey))
+				.not.toBe(generateEntitySecretCiphertext(entitySecret, publicKey));
+		});
+
+		it('should reject secrets that are not 32-byte hex', () => {
+			expect(() => generateEntitySecretCiphertext('not-hex', publicKey)).toThrow('64-character hex string');
+		});
+	});
+
 	describe('createHmacSignature', () => {
 		it('should create consistent signatures', () => {
 			const data = 'test data';
@@ -167,4 +249,21 @@ describe('Signature Utilities', () => {
 			expect(header).toBe('Bearer test-api-key');
 		});
 	});
+
+	describe('getJwtExpiry', () => {
+		const makeJwt = (payload: Record<string, unknown>) =>
+			`header.${Buffer.from(JSON.stringify(payload)).toString('base64url')}.signature`;
+
+		it('should read the exp claim', () => {
+			expect(getJwtExpiry(makeJwt({ exp: 1800000000 }))).toEqual(new Date(1800000000 * 1000));
+		});
+
+		it('should return null without an exp claim', () => {
+			expect(getJwtExpiry(makeJwt({ sub: 'user' }))).toBeNull();
+		});
+
+		it('should return null for malformed tokens', () => {
+			expect(getJwtExpiry('not-a-jwt')).toBeNull();
+		});
+	});
 });
@@ -0,0 +1,94 @@
+import {
+	DEFAULT_TRAVEL_RULE_THRESHOLD,
+	buildTravelRuleIdentity,
+	getMissingTravelRuleFields,
+	isTravelRuleRequired,
+	validateTravelRule,
+} from '../nodes/Circle/utils/travelRuleUtils';
+
+const ORIGINATOR = {
+	type: 'business',
+	name: 'Acme Corp',
+	line1: '100 Main St',
+	city: 'Boston',
+	district: 'MA',
+	postalCode: '02110',
+	country: 'us',
+};
+
+describe('Travel Rule Utilities', () => {
+	describe('buildTravelRuleIdentity', () => {
+		it('should build a Circle identity block', () => {
+			expect(buildTravelRuleIdentity(ORIGINATOR)).toEqual({
+				type: 'business',
+				name: 'Acme Corp',
+				addresses: [{ line1: '100 Main St', city: 'Boston', district: 'MA', postalCode: '02110', country: 'US' }],
+			});
+		});
+
+		it('should return undefined when nothing was entered', () => {
+			expect(buildTravelRuleIdentity({ type: 'individual', name: ' ' })).toBeUndefined();
+			expect(buildTravelRuleIdentity(undefined)).toBeUndefined();
+		});
+
+		it('should omit the address when none was given', () => {
+			expect(buildTravelRuleIdentity({ name: 'Jane Doe' })).toEqual({
+				type: 'individual',
+				name: 'Jane Doe',
+				addresses: [],
+			});
+		});
+
+		it('should leave out empty fields of a partly filled address', () => {
+			expect(buildTravelRuleIdentity({ name: 'Jane Doe', line1: '', city: 'Berlin', postalCode: ' ', country: 'de' })).toEqual({
+				type: 'individual',
+				name: 'Jane Doe',
+				addresses: [{ city: 'Berlin', country: 'DE' }],
+			});
+		});
+	});
+
+	describe('isTravelRuleRequired', () => {
+		it('should apply at or above the threshold', () => {
+			expect(isTravelRuleRequired('3000.00', 3000)).toBe(true);
+			expect(isTravelRuleRequired('2999.99', 3000)).toBe(false);
+			expect(isTravelRuleRequired(1, 0)).toBe(true);
+			expect(isTravelRuleRequired(1000000, -1)).toBe(false);
+		});
+	});
+
+	describe('getMissingTravelRuleFields', () => {
+		it('should list missing originator fields', () => {
+			const identity = buildTravelRuleIdentity({ name: 'Jane Doe', city: 'Berlin' });
+			expect(getMissingTravelRuleFields(identity, 'originator')).toEqual([
+				'addresses[0].line1',
+				'addresses[0].postalCode',
+				'addresses[0].country',
+			]);
+			expect(getMissingTravelRuleFields(undefined, 'beneficiary')).toEqual(['name']);
+		});
+	});
+
+	describe('validateTravelRule', () => {
+		it('should accept complete identities above the threshold', () => {
+			expect(() => validateTravelRule('5000', 3000, {
+				originator: buildTravelRuleIdentity(ORIGINATOR),
+				beneficiary: buildTravelRuleIdentity({ name: 'Jane Doe' }),
+			})).not.toThrow();
+		});
+
+		it('should skip required fields below the threshold', () => {
+			expect(() => validateTravelRule('100', 3000, {})).not.toThrow();
+		});
+
+		it('should not require identities by default', () => {
+			expect(() => validateTravelRule('1000000', DEFAULT_TRAVEL_RULE_THRESHOLD, {})).not.toThrow();
+		});
+
+		it('should name every problem', () => {
+			expect(() => validateTravelRule('5000', 3000, {
+				originator: buildTravelRuleIdentity({ ...ORIGINATOR, country: 'USA' }),
+			})).toThrow('originator country must be an ISO 3166-1 alpha-2 code such as US or DE, got "USA"; beneficiary is missing name');
+		});
+	});
+});